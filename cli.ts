@@ -0,0 +1,353 @@
+/**
+ * Update the comment templates of every file matching the provided globs.
+ *
+ * ```bash
+ * deno run -A https://deno.land/x/comment_templates/cli.ts "docs/**\/*.md" --vars vars.json --var version=1.0.0
+ * ```
+ *
+ * - `--vars <file>` loads variables from a JSON or YAML file and can be
+ *   repeated. Later files override earlier ones.
+ * - `--var <name=value>` sets a single variable and overrides the files.
+ * - `--check` exits with a non-zero code when any file is out of date without
+ *   writing to it. Use this in CI.
+ * - `--dry-run` lists the files which would change without writing to them.
+ * - `--watch` keeps running and updates the files again when they or their
+ *   variable files change.
+ *
+ * The comment patterns are picked from the name or extension of each file.
+ *
+ * When no globs are provided the configuration in `comment_templates.config.ts`
+ * or `deno.jsonc` is run instead. See `config.ts` for the format.
+ *
+ * @module
+ */
+
+import {
+  type CommentTemplatesConfig,
+  loadConfig,
+  runConfig,
+  type VariableSource,
+} from "./config.ts";
+import { parseFlags, path } from "./deps.ts";
+import {
+  checkFiles,
+  denoFileSystem,
+  type FileSystem,
+  findFiles,
+  parseVariables,
+  type UpdateFileResult,
+  updateFiles,
+} from "./files.ts";
+import { CommentTemplateError, type CommentTemplateProps } from "./mod.ts";
+import { watchTemplates } from "./watch.ts";
+
+type Variables = CommentTemplateProps["variables"];
+
+const USAGE = `Update the comment templates in files.
+
+Usage:
+  comment_templates <globs...> [options]
+  comment_templates [options]   Run the configuration in the current directory
+
+Options:
+  --vars <file>        Load variables from a JSON or YAML file (repeatable)
+  --var <name=value>   Set a variable (repeatable)
+  --check              Exit with a non-zero code when a file is out of date
+  --dry-run            List the files which would change without writing
+  --watch              Update the files again when they or their sources change
+  -h, --help           Show this message`;
+
+/**
+ * The options parsed from the command line arguments.
+ */
+export interface CliOptions {
+  /**
+   * The globs of the files to update.
+   */
+  globs: string[];
+
+  /**
+   * The JSON and YAML files to load variables from.
+   */
+  vars: string[];
+
+  /**
+   * The variables set with `--var name=value`.
+   */
+  variables: Record<string, string>;
+
+  /**
+   * Exit with a non-zero code when a file is out of date.
+   */
+  check: boolean;
+
+  /**
+   * List the files which would change without writing to them.
+   */
+  dryRun: boolean;
+
+  /**
+   * Keep running and update the files again when they change.
+   */
+  watch: boolean;
+
+  /**
+   * Show the usage of the command.
+   */
+  help: boolean;
+}
+
+/**
+ * Parse the command line arguments.
+ *
+ * ```ts
+ * import { parseCliArgs } from "https://deno.land/x/comment_templates@0.1.1/cli.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const options = parseCliArgs(["*.md", "--var", "version=1.0.0", "--check"]);
+ *
+ * assertEquals(options.globs, ["*.md"]);
+ * assertEquals(options.variables, { version: "1.0.0" });
+ * assertEquals(options.check, true);
+ * ```
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const flags = parseFlags(args, {
+    boolean: ["check", "dry-run", "watch", "help"],
+    string: ["vars", "var"],
+    alias: { h: "help" },
+  });
+  const variables: Record<string, string> = {};
+
+  for (const assignment of toArray(flags.var)) {
+    const index = assignment.indexOf("=");
+
+    if (index < 1) {
+      throw new CommentTemplateError(
+        `Invalid variable '${assignment}', expected 'name=value'`,
+      );
+    }
+
+    variables[assignment.slice(0, index)] = assignment.slice(index + 1);
+  }
+
+  return {
+    globs: flags._.map(String),
+    vars: toArray(flags.vars),
+    variables,
+    check: flags.check,
+    dryRun: flags["dry-run"],
+    watch: flags.watch,
+    help: flags.help,
+  };
+}
+
+function toArray(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
+
+/**
+ * The options for running the command.
+ */
+export interface RunCliOptions {
+  /**
+   * The directory the globs and variable files are resolved from.
+   *
+   * @default Deno.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Where the output of the command is written.
+   *
+   * @default console
+   */
+  logger?: Pick<Console, "log" | "error">;
+
+  /**
+   * The file system the files and variable files are read from and written
+   * to when globs are provided.
+   *
+   * @default denoFileSystem
+   */
+  fs?: FileSystem;
+
+  /**
+   * Stop watching when the signal is aborted in `--watch` mode.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Run the command with the provided arguments and resolve with the exit code.
+ *
+ * - `0` when all files were updated or are up to date.
+ * - `1` when a file is out of date in `--check` mode or an error occurs.
+ */
+export async function runCli(
+  args: string[],
+  options: RunCliOptions = {},
+): Promise<number> {
+  const { cwd = Deno.cwd(), logger = console, fs = denoFileSystem } = options;
+
+  try {
+    const cli = parseCliArgs(args);
+
+    if (cli.help) {
+      logger.log(USAGE);
+      return 0;
+    }
+
+    if (cli.watch) {
+      return await watchCli(cli, cwd, logger, options.signal);
+    }
+
+    const sources = await Promise.all(
+      cli.vars.map(async (file) =>
+        parseVariables(await fs.readTextFile(path.resolve(cwd, file)), file)
+      ),
+    );
+    const variables: Variables = Object.assign(
+      {},
+      ...sources,
+      cli.variables,
+    );
+
+    if (cli.globs.length === 0) {
+      return await runCliConfig(cli, variables, cwd, logger);
+    }
+
+    const files = await findFiles(cli.globs, cwd, fs);
+
+    if (files.length === 0) {
+      logger.error(`No files matched: ${cli.globs.join(", ")}`);
+      return 1;
+    }
+
+    if (!cli.check) {
+      const results = await updateFiles({
+        files,
+        variables,
+        cwd,
+        dryRun: cli.dryRun,
+        fs,
+      });
+      logResults(results, cli, logger);
+
+      return 0;
+    }
+
+    const results = await checkFiles({ files, variables, cwd, fs });
+    let stale = 0;
+
+    for (const result of results) {
+      for (const block of result.stale) {
+        logger.error(`${result.path}:${block.line} ${block.name}`);
+        stale++;
+      }
+    }
+
+    if (stale > 0) {
+      const blocks = stale === 1 ? "block is" : "blocks are";
+      logger.error(`${stale} templated ${blocks} out of date`);
+      return 1;
+    }
+
+    return 0;
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+async function runCliConfig(
+  cli: CliOptions,
+  variables: Variables,
+  cwd: string,
+  logger: Pick<Console, "log" | "error">,
+): Promise<number> {
+  const results = await runConfig({
+    cwd,
+    variables,
+    dryRun: cli.check || cli.dryRun,
+  });
+  logResults(results, cli, logger);
+
+  return cli.check && results.some((result) => result.changed) ? 1 : 0;
+}
+
+async function watchCli(
+  cli: CliOptions,
+  cwd: string,
+  logger: Pick<Console, "log" | "error">,
+  signal?: AbortSignal,
+): Promise<number> {
+  if (cli.check || cli.dryRun) {
+    throw new CommentTemplateError(
+      "The --watch flag can't be used with --check or --dry-run",
+    );
+  }
+
+  // The variable files are loaded as sources so they are watched as well. They
+  // are added after the sources of each configured target so they override
+  // them like they do without `--watch`.
+  const sources: VariableSource[] = cli.vars.map((file) => ({
+    type: "file",
+    path: file,
+  }));
+  const config = cli.globs.length > 0
+    ? { targets: [{ files: cli.globs, variables: sources }] }
+    : withSources(await loadConfig(cwd), sources);
+
+  await watchTemplates({
+    cwd,
+    config,
+    signal,
+    variables: cli.variables,
+    onRun: (results) => logResults(results, cli, logger),
+    onError: (error) =>
+      logger.error(error instanceof Error ? error.message : String(error)),
+  });
+
+  return 0;
+}
+
+function withSources(
+  config: CommentTemplatesConfig | undefined,
+  sources: readonly VariableSource[],
+): CommentTemplatesConfig | undefined {
+  return config && {
+    targets: config.targets.map((target) => ({
+      ...target,
+      variables: [...target.variables ?? [], ...sources],
+    })),
+  };
+}
+
+function logResults(
+  results: readonly UpdateFileResult[],
+  cli: CliOptions,
+  logger: Pick<Console, "log" | "error">,
+) {
+  for (const result of results) {
+    if (!result.changed) {
+      continue;
+    }
+
+    if (cli.check) {
+      logger.error(`${result.path} is out of date`);
+    } else {
+      logger.log(
+        `${result.written ? "Updated" : "Would update"} ${result.path}`,
+      );
+    }
+  }
+}
+
+if (import.meta.main) {
+  Deno.exit(await runCli(Deno.args));
+}
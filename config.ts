@@ -0,0 +1,524 @@
+/**
+ * Declare which files to update and where their variables come from, then run
+ * the configuration with `runConfig`.
+ *
+ * The configuration is loaded from the first of these files which exists in
+ * the working directory.
+ *
+ * - `comment_templates.config.ts` with the configuration as the default
+ *   export.
+ * - `deno.jsonc` or `deno.json` with the configuration under the
+ *   `commentTemplates` key.
+ *
+ * ```jsonc
+ * {
+ *   "commentTemplates": {
+ *     "targets": [
+ *       {
+ *         "files": ["readme.md", "docs/**\/*.md"],
+ *         "variables": [
+ *           { "type": "file", "path": "package.json" },
+ *           { "type": "env", "prefix": "DOCS_" }
+ *         ]
+ *       },
+ *       {
+ *         "files": "mod.ts",
+ *         "variables": [{ "type": "snippets", "path": "mod.d.md" }]
+ *       }
+ *     ]
+ *   }
+ * }
+ * ```
+ *
+ * @module
+ */
+
+import { path } from "./deps.ts";
+import {
+  getPatterns,
+  parseVariables,
+  type UpdateFileResult,
+  updateFiles,
+} from "./files.ts";
+import {
+  type CommentPattern,
+  type CommentTemplateAsyncProps,
+  CommentTemplateError,
+  extractTemplateValues,
+} from "./mod.ts";
+
+type AsyncVariables = CommentTemplateAsyncProps["variables"];
+
+/**
+ * The name of the configuration module which is loaded before `deno.jsonc`.
+ */
+export const CONFIG_FILE = "comment_templates.config.ts";
+
+/**
+ * The key which holds the configuration in `deno.jsonc` and `deno.json`.
+ */
+export const CONFIG_KEY = "commentTemplates";
+
+/**
+ * The configuration of the files to update.
+ */
+export interface CommentTemplatesConfig {
+  /**
+   * The files to update and the variables used for them.
+   */
+  targets: TemplateTarget[];
+}
+
+/**
+ * A group of files which are updated with the same variables.
+ */
+export interface TemplateTarget {
+  /**
+   * The globs of the files to update, relative to the working directory.
+   */
+  files: string | string[];
+
+  /**
+   * The comment patterns to transform.
+   *
+   * @default the patterns for the extension of each file
+   */
+  patterns?: CommentPattern[];
+
+  /**
+   * Where the variables come from. Later sources override variables with the
+   * same name from earlier sources.
+   *
+   * @default []
+   */
+  variables?: VariableSource[];
+
+  /**
+   * Throw an error if a variable is not found.
+   *
+   * @default false
+   */
+  throwIfMissingVariable?: boolean;
+
+  /**
+   * Globs of other files which affect the variables, relative to the working
+   * directory. In watch mode the target runs again when they change, e.g.
+   * `mod.ts` when the api docs are generated from it.
+   *
+   * The files of the target and the paths of its variable sources are always
+   * watched.
+   *
+   * @default []
+   */
+  watch?: string[];
+}
+
+/**
+ * Load variables from a JSON or YAML file.
+ */
+export interface FileVariableSource {
+  type: "file";
+  path: string;
+}
+
+/**
+ * Load the snippets of a file with `extractTemplateValues`.
+ */
+export interface SnippetsVariableSource {
+  type: "snippets";
+  path: string;
+
+  /**
+   * The comment patterns to extract the snippets from.
+   *
+   * @default the patterns for the extension of the file
+   */
+  patterns?: CommentPattern[];
+}
+
+/**
+ * Load variables from the environment. This requires the `--allow-env`
+ * permission.
+ */
+export interface EnvVariableSource {
+  type: "env";
+
+  /**
+   * Only load these environment variables.
+   */
+  names?: string[];
+
+  /**
+   * Only load the environment variables which start with the prefix. The
+   * prefix is removed from the variable name.
+   */
+  prefix?: string;
+}
+
+/**
+ * Load variables from the exports of a module.
+ */
+export interface ModuleVariableSource {
+  type: "module";
+  path: string;
+
+  /**
+   * The name of the export which holds the variables. When it is a function it
+   * is called and can return a promise.
+   *
+   * When omitted every named export is used as a variable and exported
+   * functions are called with the current value of their tag.
+   */
+  export?: string;
+}
+
+/**
+ * Provide the variables directly. This is only useful in
+ * `comment_templates.config.ts` since the values can be functions.
+ */
+export interface ValuesVariableSource {
+  type: "values";
+  values: AsyncVariables;
+}
+
+/**
+ * The sources which variables can be loaded from.
+ */
+export type VariableSource =
+  | FileVariableSource
+  | SnippetsVariableSource
+  | EnvVariableSource
+  | ModuleVariableSource
+  | ValuesVariableSource;
+
+/**
+ * Type the configuration in `comment_templates.config.ts`.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { defineConfig } from "https://deno.land/x/comment_templates@0.1.1/config.ts";
+ *
+ * export default defineConfig({
+ *   targets: [
+ *     {
+ *       files: "readme.md",
+ *       variables: [
+ *         { type: "values", values: { year: () => `${new Date().getFullYear()}` } },
+ *       ],
+ *     },
+ *   ],
+ * });
+ * ```
+ */
+export function defineConfig(
+  config: CommentTemplatesConfig,
+): CommentTemplatesConfig {
+  return config;
+}
+
+/**
+ * Load the configuration from the working directory.
+ *
+ * Returns `undefined` when no configuration is found.
+ */
+export async function loadConfig(
+  cwd: string = Deno.cwd(),
+): Promise<CommentTemplatesConfig | undefined> {
+  const module = path.join(cwd, CONFIG_FILE);
+
+  if (await exists(module)) {
+    const { default: config } = await import(path.toFileUrl(module).href);
+    return validateConfig(config, CONFIG_FILE);
+  }
+
+  const files = await Promise.all(
+    ["deno.jsonc", "deno.json"].map(async (name) => {
+      const file = path.join(cwd, name);
+      const json = await exists(file)
+        ? parseJsonc(await Deno.readTextFile(file))
+        : undefined;
+
+      return { name, json };
+    }),
+  );
+
+  for (const { name, json } of files) {
+    if (isObject(json) && json[CONFIG_KEY] !== undefined) {
+      return validateConfig(json[CONFIG_KEY], name);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The props for `runConfig`.
+ */
+export interface RunConfigProps {
+  /**
+   * The directory which globs and source paths are resolved from.
+   *
+   * @default Deno.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * The configuration to run. When omitted it is loaded from the working
+   * directory with `loadConfig`.
+   */
+  config?: CommentTemplatesConfig;
+
+  /**
+   * Variables which override the variables of every target.
+   */
+  variables?: AsyncVariables;
+
+  /**
+   * Transform the files without writing to them.
+   *
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Import module sources again rather than using the previously imported
+   * module. This is used by watch mode to pick up changes to the modules. The
+   * modules they import are not reloaded.
+   *
+   * @default false
+   */
+  reload?: boolean;
+}
+
+/**
+ * The result for each file updated by `runConfig`.
+ */
+export type RunConfigResult = UpdateFileResult;
+
+/**
+ * Update the files of every target in the configuration.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { runConfig } from "https://deno.land/x/comment_templates@0.1.1/config.ts";
+ *
+ * const results = await runConfig({
+ *   cwd: "./tests",
+ *   dryRun: true,
+ *   config: {
+ *     targets: [
+ *       {
+ *         files: "fixtures/*.md",
+ *         variables: [{ type: "values", values: { exampleName: "Deno" } }],
+ *       },
+ *     ],
+ *   },
+ * });
+ * // => [{ path: "fixtures/sample.md", changed: true, written: false, ... }]
+ * ```
+ */
+export async function runConfig(
+  props: RunConfigProps = {},
+): Promise<RunConfigResult[]> {
+  const { cwd = Deno.cwd(), dryRun = false } = props;
+  const config = props.config ?? await loadConfig(cwd);
+
+  if (!config) {
+    throw new CommentTemplateError(
+      `No configuration found in ${CONFIG_FILE}, deno.jsonc or deno.json`,
+    );
+  }
+
+  const results: RunConfigResult[] = [];
+
+  for (const target of config.targets) {
+    // Targets run in order so that later targets can use the output of
+    // earlier targets.
+    // deno-lint-ignore no-await-in-loop
+    results.push(...await runTarget(target, { ...props, cwd, dryRun }));
+  }
+
+  return results;
+}
+
+async function runTarget(
+  target: TemplateTarget,
+  props: RunConfigProps & { cwd: string; dryRun: boolean },
+): Promise<RunConfigResult[]> {
+  const { cwd, dryRun, reload = false } = props;
+  const variables = await loadVariables(target.variables ?? [], cwd, reload);
+
+  return updateFiles({
+    glob: target.files,
+    variables: { ...variables, ...props.variables },
+    patterns: target.patterns,
+    throwIfMissingVariable: target.throwIfMissingVariable,
+    cwd,
+    dryRun,
+  });
+}
+
+/**
+ * Load and merge the variables from each source.
+ */
+async function loadVariables(
+  sources: readonly VariableSource[],
+  cwd: string,
+  reload: boolean,
+): Promise<AsyncVariables> {
+  const loaded = await Promise.all(
+    sources.map((source) => loadSource(source, cwd, reload)),
+  );
+
+  return Object.assign({}, ...loaded);
+}
+
+async function loadSource(
+  source: VariableSource,
+  cwd: string,
+  reload: boolean,
+): Promise<AsyncVariables> {
+  switch (source.type) {
+    case "file": {
+      const content = await Deno.readTextFile(path.resolve(cwd, source.path));
+      return parseVariables(content, source.path);
+    }
+
+    case "snippets": {
+      const content = await Deno.readTextFile(path.resolve(cwd, source.path));
+      const patterns = source.patterns ?? getPatterns(source.path);
+      return Object.fromEntries(extractTemplateValues(content, { patterns }));
+    }
+
+    case "env": {
+      const { names, prefix = "" } = source;
+      const env = names
+        ? Object.fromEntries(names.map((name) => [name, Deno.env.get(name)]))
+        : Deno.env.toObject();
+      const variables: AsyncVariables = {};
+
+      for (const [name, value] of Object.entries(env)) {
+        if (name.startsWith(prefix)) {
+          variables[name.slice(prefix.length)] = value;
+        }
+      }
+
+      return variables;
+    }
+
+    case "module": {
+      const url = path.toFileUrl(path.resolve(cwd, source.path));
+
+      if (reload) {
+        url.searchParams.set("reload", `${Date.now()}`);
+      }
+
+      const { default: _, ...exports } = await import(url.href);
+
+      if (source.export === undefined) {
+        return exports;
+      }
+
+      const value = exports[source.export];
+      const variables = typeof value === "function" ? await value() : value;
+
+      if (!isObject(variables)) {
+        throw new CommentTemplateError(
+          `The export '${source.export}' of '${source.path}' must be an object of variables`,
+        );
+      }
+
+      return variables as AsyncVariables;
+    }
+
+    case "values":
+      return source.values;
+
+    default:
+      throw new CommentTemplateError(
+        `Invalid variable source: ${JSON.stringify(source)}`,
+      );
+  }
+}
+
+function validateConfig(
+  config: unknown,
+  name: string,
+): CommentTemplatesConfig {
+  if (!isObject(config) || !Array.isArray(config.targets)) {
+    throw new CommentTemplateError(
+      `The configuration in ${name} must have a list of targets`,
+    );
+  }
+
+  return config as unknown as CommentTemplatesConfig;
+}
+
+/**
+ * Parse JSON which can contain comments and trailing commas.
+ */
+export function parseJsonc(content: string): unknown {
+  const parts: string[] = [];
+  // The index of the last comma in `parts` when only whitespace and comments
+  // follow it, so that it can be removed before the end of an object or array.
+  let comma = -1;
+  let index = 0;
+
+  while (index < content.length) {
+    const char = content[index] ?? "";
+    const next = content[index + 1];
+
+    if (char === '"') {
+      const start = index++;
+
+      while (index < content.length && content[index] !== '"') {
+        index += content[index] === "\\" ? 2 : 1;
+      }
+
+      parts.push(content.slice(start, ++index));
+      comma = -1;
+    } else if (char === "/" && next === "/") {
+      while (index < content.length && content[index] !== "\n") {
+        index++;
+      }
+    } else if (char === "/" && next === "*") {
+      const end = content.indexOf("*/", index + 2);
+      index = end === -1 ? content.length : end + 2;
+    } else {
+      // Remove the trailing comma before the end of an object or array.
+      if ((char === "}" || char === "]") && comma !== -1) {
+        parts[comma] = "";
+      }
+
+      if (char === ",") {
+        comma = parts.length;
+      } else if (!/\s/.test(char)) {
+        comma = -1;
+      }
+
+      parts.push(char);
+      index++;
+    }
+  }
+
+  return JSON.parse(parts.join(""));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await Deno.stat(file);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return false;
+    }
+
+    throw error;
+  }
+}
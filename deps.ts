@@ -0,0 +1,3 @@
+export { parse as parseFlags } from "https://deno.land/std@0.145.0/flags/mod.ts";
+export { expandGlob } from "https://deno.land/std@0.145.0/fs/expand_glob.ts";
+export * as path from "https://deno.land/std@0.145.0/path/mod.ts";
@@ -0,0 +1,429 @@
+/**
+ * Update the comment templates of files with `updateFiles` and check them with
+ * `checkFiles`, along with the helpers for finding the files and the comment
+ * patterns to use for each of them.
+ *
+ * @module
+ */
+
+import { expandGlob, path } from "./deps.ts";
+import {
+  checkTemplateAsync,
+  type CommentPattern,
+  commentTemplateAsync,
+  type CommentTemplateAsyncProps,
+  CommentTemplateError,
+  type CommentTemplateProps,
+  type StaleBlock,
+} from "./mod.ts";
+import { serializationPipes } from "./serialize.ts";
+import { parseYaml } from "./serialize_deps.ts";
+
+type Variables = CommentTemplateProps["variables"];
+
+const EXCLUDE = ["**/node_modules/**", "**/.git/**"];
+
+const SLASH: CommentPattern[] = ["slash", "xml", "line"];
+
+/**
+ * The comment patterns used for each file extension. Files with an extension
+ * not listed here use the default patterns of `commentTemplate`.
+ */
+export const EXTENSION_PATTERNS: Readonly<Record<string, CommentPattern[]>> = {
+  ".md": ["xml"],
+  ".markdown": ["xml"],
+  ".html": ["xml"],
+  ".htm": ["xml"],
+  ".xml": ["xml"],
+  ".svg": ["xml"],
+  ".mdx": ["jsx"],
+  ".js": SLASH,
+  ".mjs": SLASH,
+  ".cjs": SLASH,
+  ".ts": SLASH,
+  ".mts": SLASH,
+  ".cts": SLASH,
+  ".jsx": ["jsx", ...SLASH],
+  ".tsx": ["jsx", ...SLASH],
+  ".css": ["slash"],
+  ".scss": ["slash", "line"],
+  ".less": ["slash", "line"],
+  ".rs": ["slash", "line"],
+  ".go": ["slash", "line"],
+  ".yml": ["hash"],
+  ".yaml": ["hash"],
+  ".toml": ["hash"],
+  ".sh": ["hash"],
+  ".py": ["hash"],
+  ".rb": ["hash"],
+  ".sql": [{ open: "--" }],
+  ".lua": [{ open: "--" }],
+  ".dockerfile": ["hash"],
+};
+
+/**
+ * The comment patterns used for files which are known by their name rather
+ * than their extension. Names are lowercase.
+ */
+export const BASENAME_PATTERNS: Readonly<Record<string, CommentPattern[]>> = {
+  "dockerfile": ["hash"],
+  "containerfile": ["hash"],
+  "makefile": ["hash"],
+  ".gitignore": ["hash"],
+  ".dockerignore": ["hash"],
+  ".env": ["hash"],
+};
+
+/**
+ * Get the comment patterns for a file from its name or, when the name isn't
+ * known, its extension.
+ */
+export function getPatterns(file: string): CommentPattern[] | undefined {
+  const name = path.basename(file).toLowerCase();
+  return BASENAME_PATTERNS[name] ?? EXTENSION_PATTERNS[path.extname(name)];
+}
+
+/**
+ * Parse the content of a variables file. The format is picked from the
+ * extension of the file, which can be `.json`, `.yaml` or `.yml`.
+ */
+export function parseVariables(
+  content: string,
+  file: string,
+): Variables {
+  const extension = path.extname(file).toLowerCase();
+  let variables: unknown;
+
+  if (extension === ".json") {
+    variables = JSON.parse(content);
+  } else if (extension === ".yaml" || extension === ".yml") {
+    variables = parseYaml(content);
+  } else {
+    throw new CommentTemplateError(
+      `Unsupported variables file '${file}', expected JSON or YAML`,
+    );
+  }
+
+  if (
+    typeof variables !== "object" || variables === null ||
+    Array.isArray(variables)
+  ) {
+    throw new CommentTemplateError(
+      `The variables file '${file}' must contain an object`,
+    );
+  }
+
+  return variables as Variables;
+}
+
+/**
+ * The file system used by `updateFiles`. Provide an in memory implementation
+ * to update files without touching the disk.
+ */
+export interface FileSystem {
+  /**
+   * Read the content of the file at the absolute path.
+   */
+  readTextFile(path: string): Promise<string>;
+
+  /**
+   * Write the content to the file at the absolute path.
+   */
+  writeTextFile(path: string, content: string): Promise<void>;
+
+  /**
+   * Expand the glob, which is relative to `cwd`, into absolute file paths.
+   */
+  expandGlob(glob: string, cwd: string): Promise<string[]>;
+}
+
+/**
+ * The file system backed by the `Deno` APIs. Files within `node_modules` and
+ * `.git` are never matched by a glob.
+ */
+export const denoFileSystem: FileSystem = {
+  readTextFile: (path) => Deno.readTextFile(path),
+  writeTextFile: (path, content) => Deno.writeTextFile(path, content),
+  expandGlob: async (glob, cwd) => {
+    const paths: string[] = [];
+    const iterator = expandGlob(glob, {
+      root: cwd,
+      exclude: EXCLUDE,
+      includeDirs: false,
+    });
+
+    for await (const entry of iterator) {
+      paths.push(entry.path);
+    }
+
+    return paths;
+  },
+};
+
+/**
+ * Expand the globs into a sorted list of unique file paths.
+ */
+export async function findFiles(
+  globs: string[],
+  cwd: string,
+  fs: FileSystem = denoFileSystem,
+): Promise<string[]> {
+  const matches = await Promise.all(
+    globs.map((glob) => fs.expandGlob(glob, cwd)),
+  );
+
+  return [...new Set(matches.flat())].sort();
+}
+
+/**
+ * The props for `updateFiles`.
+ */
+export interface UpdateFilesProps
+  extends Omit<CommentTemplateAsyncProps, "content" | "path"> {
+  /**
+   * The paths of the files to update, relative to `cwd`.
+   */
+  files?: string[];
+
+  /**
+   * The globs of the files to update, relative to `cwd`. These are combined
+   * with `files`.
+   */
+  glob?: string | string[];
+
+  /**
+   * The comment patterns to transform.
+   *
+   * @default the patterns for the extension of each file
+   */
+  patterns?: CommentPattern[];
+
+  /**
+   * The directory which the files and globs are resolved from.
+   *
+   * @default Deno.cwd()
+   */
+  cwd?: string;
+
+  /**
+   * Transform the files without writing to them.
+   *
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * The file system to read and write the files with.
+   *
+   * @default denoFileSystem
+   */
+  fs?: FileSystem;
+}
+
+/**
+ * The result for each file of `updateFiles`.
+ */
+export interface UpdateFileResult {
+  /**
+   * The path of the file relative to `cwd`.
+   */
+  path: string;
+
+  /**
+   * True when the content of the file changed, or would change for a dry run.
+   */
+  changed: boolean;
+
+  /**
+   * True when the file was written. Files are only written when they changed
+   * and this isn't a dry run.
+   */
+  written: boolean;
+
+  /**
+   * The transformed content of the file.
+   */
+  content: string;
+}
+
+/**
+ * Update the comment templates in each of the files.
+ *
+ * Files are only written when their content changes so that modified times and
+ * file watchers are left alone. Include tags are resolved relative to each
+ * file and read with the `fs`. When a file uses `\r\n` line endings the
+ * transformed content uses them too. The `serializationPipes` are available
+ * along with the `pipes`.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { updateFiles } from "https://deno.land/x/comment_templates@0.1.1/files.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const [result] = await updateFiles({
+ *   files: ["tests/fixtures/sample.md"],
+ *   variables: { exampleName: "Deno" },
+ *   dryRun: true,
+ * });
+ *
+ * assertEquals(result?.changed, true);
+ * assertEquals(result?.written, false);
+ * ```
+ */
+export async function updateFiles(
+  props: UpdateFilesProps,
+): Promise<UpdateFileResult[]> {
+  const {
+    files = [],
+    glob = [],
+    cwd = Deno.cwd(),
+    dryRun = false,
+    fs = denoFileSystem,
+    ...options
+  } = props;
+  const paths = await resolveFiles(files, glob, cwd, fs);
+
+  return Promise.all(paths.map(async (file) => {
+    const content = await fs.readTextFile(file);
+    const transformed = withLineEndings(
+      await commentTemplateAsync({
+        ...getFileProps(file, options, fs),
+        content,
+      }),
+      content,
+    );
+    const changed = transformed !== content;
+    const written = changed && !dryRun;
+
+    if (written) {
+      await fs.writeTextFile(file, transformed);
+    }
+
+    return {
+      path: path.relative(cwd, file),
+      changed,
+      written,
+      content: transformed,
+    };
+  }));
+}
+
+/**
+ * The props for `checkFiles`.
+ */
+export type CheckFilesProps = Omit<UpdateFilesProps, "dryRun">;
+
+/**
+ * The result for each file of `checkFiles`.
+ */
+export interface CheckFileResult {
+  /**
+   * The path of the file relative to `cwd`.
+   */
+  path: string;
+
+  /**
+   * The blocks which are out of date.
+   */
+  stale: StaleBlock[];
+}
+
+/**
+ * Check that the comment templates in each of the files are up to date
+ * without writing to them.
+ *
+ * The files are transformed in the same way as `updateFiles` so a file is only
+ * stale when `updateFiles` would change it. The line numbers of the stale
+ * blocks can be used to point at them.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { checkFiles } from "https://deno.land/x/comment_templates@0.1.1/files.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const [result] = await checkFiles({
+ *   files: ["tests/fixtures/sample.md"],
+ *   variables: { exampleName: "Deno" },
+ * });
+ *
+ * assertEquals(result?.stale.map(({ name, line }) => [name, line]), [
+ *   ["exampleName", 1],
+ * ]);
+ * ```
+ */
+export async function checkFiles(
+  props: CheckFilesProps,
+): Promise<CheckFileResult[]> {
+  const {
+    files = [],
+    glob = [],
+    cwd = Deno.cwd(),
+    fs = denoFileSystem,
+    ...options
+  } = props;
+  const paths = await resolveFiles(files, glob, cwd, fs);
+
+  return Promise.all(paths.map(async (file) => {
+    const content = await fs.readTextFile(file);
+    const stale = await checkTemplateAsync({
+      ...getFileProps(file, options, fs),
+      // `updateFiles` writes the values with the `\r\n` line endings of the
+      // file, so they are compared without them.
+      content: usesCrlf(content) ? content.replaceAll("\r\n", "\n") : content,
+    });
+
+    return { path: path.relative(cwd, file), stale };
+  }));
+}
+
+/**
+ * Get the unique absolute paths of the files and the files matching the globs.
+ */
+async function resolveFiles(
+  files: string[],
+  glob: string | string[],
+  cwd: string,
+  fs: FileSystem,
+): Promise<string[]> {
+  const matches = await findFiles([glob].flat(), cwd, fs);
+  return [
+    ...new Set([...files.map((file) => path.resolve(cwd, file)), ...matches]),
+  ];
+}
+
+/**
+ * The props used to transform a file, which are shared by `updateFiles` and
+ * `checkFiles` so that they agree on the content of each file.
+ */
+function getFileProps(
+  file: string,
+  options: Omit<CommentTemplateAsyncProps, "content" | "path">,
+  fs: FileSystem,
+): Omit<CommentTemplateAsyncProps, "content"> {
+  return {
+    include: (included) => fs.readTextFile(included),
+    ...options,
+    path: file,
+    pipes: { ...serializationPipes, ...options.pipes },
+    patterns: options.patterns ?? getPatterns(file),
+  };
+}
+
+/**
+ * Check whether the content only uses `\r\n` line endings.
+ */
+function usesCrlf(content: string): boolean {
+  return content.includes("\r\n") && !/(^|[^\r])\n/.test(content);
+}
+
+/**
+ * Use `\r\n` line endings in the transformed content when the original
+ * content only uses `\r\n` line endings.
+ */
+function withLineEndings(transformed: string, original: string): string {
+  return usesCrlf(original)
+    ? transformed.replace(/\r?\n/g, "\r\n")
+    : transformed;
+}
@@ -1,5 +1,7 @@
+import * as path from "https://deno.land/std@0.145.0/path/mod.ts";
+
 /**
- * <!-- ={modCommentTemplate|prefix:"\n"|indent:" * "|suffix:"\n * "} -->
+ * <!-- ={modCommentTemplate|autoindent} -->
  * Provide a string which contains template tags (using html and slash comments)
  * that should be replaced with the variables provided.
  *
@@ -52,16 +54,151 @@
  * - `indent`: `|indent:" "` will indent each line by the provided string. This
  *   can be used to provide custom prefixes like `|indent:" * "` to
  * - `code`: `|code:null` will wrap the value in inline code `\`` backticks.
- * - `replace`: `|replace:"search,replace"` will replace the search string with
- *   the replacement where the `,` is used to split the string.
+ * - `replace`: `|replace:"search","replace"` will replace every occurrence of
+ *   the search string with the replacement. The search can be a regex literal,
+ *   e.g. `|replace:/v(\d+)/g,"$1"`, which replaces the first match unless it
+ *   has the `g` flag. The older `|replace:"search,replace"` form with a single
+ *   argument is still supported.
+ * - `escapeHtml`: `|escapeHtml` will escape `&`, `<`, `>`, `"` and `'` as HTML
+ *   entities.
+ * - `escapeMarkdown`: `|escapeMarkdown` will escape the characters which
+ *   markdown treats as formatting with a backslash.
+ * - `escapeRegex`: `|escapeRegex` will escape the characters which have a
+ *   special meaning in a regular expression.
+ * - `jsString`: `|jsString` will convert the value to a JavaScript string
+ *   literal with escaped quotes, backslashes and line breaks. `|jsString:true`
+ *   uses single quotes.
+ * - `jsonString`: `|jsonString` will convert the value to a JSON string.
+ * - `lines`: `|lines:"3-12"` will keep the lines from the first to the last
+ *   line number, which start from `1`. `"3-"` keeps the lines from the third
+ *   line to the end, `"-12"` the first twelve lines and `3` only the third
+ *   line.
+ * - `first`: `|first:3` will keep the first lines of the value, which defaults
+ *   to `1` line.
+ * - `last`: `|last:3` will keep the last lines of the value, which defaults to
+ *   `1` line.
+ * - `dedent`: `|dedent` will remove the indentation shared by every line which
+ *   isn't blank.
+ * - `wrap`: `|wrap:80` will wrap each paragraph so its lines fit within the
+ *   width, which defaults to `80`. Paragraphs are separated by blank lines,
+ *   list items and markdown line breaks, and keep the indentation of their
+ *   first line. Fenced code blocks are left as they are.
+ * - `truncate`: `|truncate:120,"..."` will shorten values which are longer than
+ *   the length, which defaults to `80`, and end them with the provided
+ *   ellipsis, which defaults to the single ellipsis character (U+2026).
+ * - `camelCase`, `pascalCase`, `kebabCase`, `snakeCase` and `constantCase`:
+ *   `|constantCase` will split the value into words, e.g. `comment-templates`,
+ *   `commentTemplates` or `XMLParser`, and join them in the case, e.g.
+ *   `COMMENT_TEMPLATES`. Words in any script are supported.
+ * - `upper`: `|upper` will convert the value to upper case.
+ * - `lower`: `|lower` will convert the value to lower case.
+ * - `title`: `|title` will capitalize the first letter of each word for a
+ *   heading while keeping the punctuation and spacing, e.g.
+ *   `Hello, World! It's Node.js`. Words which already contain an uppercase
+ *   letter or a number, like `iPhone` or `v0.1.1`, are kept as they are.
+ * - `number`: `|number` will format a number, or a numeric string, for the
+ *   locale, e.g. `1,234,567`. `|number:"de-DE"` uses the provided locale
+ *   instead.
+ * - `percent`: `|percent:1` will format a ratio like `0.256` as a percentage
+ *   with at most the provided number of fraction digits, e.g. `25.6%`. It
+ *   defaults to `0` digits.
+ * - `bytes`: `|bytes:1` will format a number of bytes with the largest unit
+ *   that keeps the value at or above `1`, e.g. `1.5 kB`. It defaults to `1`
+ *   fraction digit.
+ * - `date`: `|date:"yyyy-MM-dd"` will format a date, a number of milliseconds
+ *   since the epoch or a date string. Numeric strings like `"2024"` are parsed
+ *   as dates. The format supports `yyyy`, `yy`, `MMMM`, `MMM`, `MM`, `M`, `dd`,
+ *   `d`, `EEEE`, `EEE`, `HH`, `H`, `hh`, `h`, `mm`, `ss` and `a`, with text in
+ *   single quotes kept as it is. The date styles `full`, `long`, `medium` and
+ *   `short` are supported as well as `relative`, which formats the date
+ *   relative to the `now` prop, e.g. `3 days ago`.
+ * - `table`: `|table` renders an array of objects as a markdown table with
+ *   aligned columns. The optional arguments are the comma separated columns,
+ *   which can be dotted paths, their header labels and their alignment (`left`,
+ *   `center` or `right`), e.g.
+ *   `|table:"name,default","Option,Default","left,right"`. `|` is escaped and
+ *   line breaks are replaced with `<br>` within the cells.
+ * - `json`: `|json:2` will convert the value, e.g. an object, to JSON with the
+ *   provided indentation which defaults to `2`. Use `|json:0` for a single
+ *   line.
+ * - `tsLiteral`: `|tsLiteral:2` will convert the value to a TypeScript literal
+ *   with unquoted keys and trailing commas. Use `|tsLiteral:0` for a single
+ *   line.
+ * - `autoindent`: `|autoindent` will indent a multiline value to match the line
+ *   of the opening tag, including the gutter of doc comments, and place it on
+ *   its own lines. `|autoindent:false` turns it off when the `autoindent` prop
+ *   is `true`.
+ *
+ * The supported pipe arguments are `true`, `false`, `null`, any number like
+ * `-1_000.5`, strings wrapped in double or single quotes, e.g. `"string"` or
+ * `'string'`, and regex literals like `/v(\d+)/g`. Strings support backslash
+ * escapes like `\"`, `\\`, `\n`, `\t` and `\u{1F600}`. Multiple arguments are
+ * separated by `,`, e.g. `|replace:"a", "b"`, with optional whitespace around
+ * it, and an error with the offset of the invalid argument within the tag is
+ * thrown when an argument can't be parsed.
+ *
+ * The `number`, `percent`, `bytes` and `date` pipes use the `locale` prop,
+ * which defaults to `en-US`, and the `date` pipe uses the `timeZone` prop,
+ * which defaults to `UTC`. The defaults don't depend on the system so the
+ * output is the same on every machine. Relative dates use the current time
+ * unless the `now` prop is provided.
+ *
+ * Custom pipes can be provided with the `pipes` prop and are used in the same
+ * way as the built in pipes. Use `definePipe` to type the arguments of a custom
+ * pipe. The `autoindent` name is reserved and an error is thrown when a custom
+ * pipe uses it. Pipes only receive strings unless they are defined with
+ * `defineValuePipe`, which receives objects and arrays as they are, like the
+ * `table`, `json` and `tsLiteral` pipes.
+ *
+ * The `yaml` and `toml` pipes are exported as `serializationPipes` from
+ * `serialize.ts` so that only the code which uses them loads the YAML and TOML
+ * modules. `updateFiles` and the CLI include them, and they can be passed to
+ * the `pipes` prop, e.g. `pipes: serializationPipes`.
+ *
+ * Pipes which don't need an argument can be used without one, e.g. `|trim` or
+ * `|code`.
+ *
+ * The same variable can be used in multiple blocks within the content and
+ * blocks can be nested within each other. When a block is replaced, the blocks
+ * nested within it are replaced along with the rest of its content. An error is
+ * thrown when a replacement contains a closing tag which would end its block,
+ * or a parent block, early. Use an escaping pipe like `|escapeHtml` to insert
+ * text which can contain comments.
+ *
+ * Repeat blocks render an item template for each item of an array variable.
+ * `{key}` is replaced with the value of the key, or dotted path, of each item
+ * and `{.}` with the item itself. The items are separated by a line break
+ * unless a `separator` is provided, and any other pipes are applied to the
+ * rendered items.
+ *
+ * ```md
+ * <!-- *{contributors|template:"- [{name}]({url})"|autoindent} --><!-- {/contributors} -->
+ * <!-- *{platforms|separator:", "} --><!-- {/platforms} -->
+ * ```
+ *
+ * Condition blocks show or hide their content based on a variable. The content
+ * is shown when the variable is truthy, and hidden when it is `false`, `0`, an
+ * empty string or an empty array. `?{!name}` does the opposite.
+ *
+ * ```md
+ * <!-- ?{isBeta} -->
+ *
+ * > This package is in beta.
+ *
+ * <!-- {/isBeta} -->
+ * ```
  *
- * The supported pipe arguments are `true`, `false`, `null`, any number
- * `0123456789_` and any string wrapped in double quotes `"string"`
+ * Hidden content is commented out with the comment syntax of the tags rather
+ * than removed, so it is shown again when the variable changes. The closing
+ * delimiter of nested tags is escaped with a backslash while the content is
+ * hidden, e.g. `--\>`.
  *
- * **NOTE**: The pipe arguments are not processed with regex and at the moment
- * the regex is timing out when a single pipe is used without arguments. In
- * order to use a single pipe, please provide an argument, even if it is an
- * empty string.
+ * Content can be pulled in from other files with an include tag, e.g.
+ * `={include:"./examples/basic.ts#setup"|codeblock:"ts"}` closed by
+ * `{/include}`. The path is resolved relative to the `path` prop and the
+ * optional `#setup` region selects the `@{setup}` snippet of the included file.
+ * Include tags are only resolved when an `include` function is provided, which
+ * `updateFiles` and the cli do for you.
  *
  * ### Examples
  *
@@ -102,343 +239,3013 @@
  * <!-- {/modCommentTemplate} -->
  */
 export function commentTemplate(props: CommentTemplateProps): string {
-  const {
-    content,
-    variables,
-    throwIfMissingVariable = false,
-    patterns = ["slash", "xml"],
-    exclude,
-  } = props;
-  let transformed = content;
-
-  for (const name of patterns) {
-    const pattern = PATTERNS[name];
-
-    // Reverse the matches so that changes to content don't affect the content.
-    const reversedMatches = [...transformed.matchAll(pattern)].reverse();
+  return commentTemplateWithReport(props).content;
+}
 
-    for (const match of reversedMatches) {
-      const full = match[0];
-      const { name, value, open, close, pipes } = match.groups ?? {};
-      const start = match.index;
-      const length = full?.length;
-      const fn = createPiper(pipes);
+/**
+ * The same as `commentTemplate` except it returns a report of what was
+ * transformed along with the transformed content.
+ *
+ * The report includes every replacement that was made, the tags which have no
+ * variable and the variables which were never used by a tag. This can be used
+ * to print a summary or to catch typos in variable names.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import {
+ *   commentTemplateWithReport,
+ * } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const report = commentTemplateWithReport({
+ *   content: "<!-- ={name} -->old<!-- {/name} --><!-- ={typo} --><!-- {/typo} -->",
+ *   variables: { name: "new", version: "1.0.0" },
+ * });
+ *
+ * assertEquals(report.changed, true);
+ * assertEquals(report.replacements.map(({ before, after }) => [before, after]), [
+ *   ["old", "new"],
+ * ]);
+ * assertEquals(report.missing.map(({ name }) => name), ["typo"]);
+ * assertEquals(report.unused, ["version"]);
+ * ```
+ */
+export function commentTemplateWithReport(
+  props: CommentTemplateProps,
+): CommentTemplateReport {
+  return renderTemplate(props, []);
+}
 
-      if (!name || !open || !close || typeof start !== "number" || !length) {
+/**
+ * Render the template synchronously. The `includes` are the include targets
+ * which are currently being rendered and are used to detect cycles.
+ */
+function renderTemplate(
+  props: CommentTemplateProps,
+  includes: readonly string[],
+): CommentTemplateReport {
+  const { variables } = props;
+  const walker = walkTemplate(props);
+  let result = walker.next();
+
+  while (!result.done) {
+    const values: VariableValues = new Map();
+
+    for (const node of result.value) {
+      if (node.include !== undefined) {
+        values.set(node, includeTemplate(props, node.include, includes));
         continue;
       }
 
-      const end = start + length;
-      const [replaceStart, replaceEnd] = [
-        start + open.length,
-        end - close.length,
-      ];
+      const variable = resolveVariable(variables, node.name);
+      values.set(
+        node,
+        typeof variable === "function" ? variable(node.value) : variable,
+      );
+    }
 
-      const variable = variables[name];
-      const replacementValue = typeof variable === "string"
-        ? fn(variable)
-        : typeof variable === "function"
-        ? fn(variable(value))
-        : "";
+    result = walker.next(values);
+  }
 
-      const details: ExcludeDetails = {
-        end,
-        start,
-        name,
-        replaceEnd,
-        replaceStart,
-        fullMatch: full,
-        value: replacementValue,
-      };
+  return result.value;
+}
 
-      if (exclude?.(details)) {
-        continue;
-      }
+function includeTemplate(
+  props: CommentTemplateProps,
+  include: string,
+  includes: readonly string[],
+): string | undefined {
+  if (!props.include) {
+    return;
+  }
 
-      // deno-lint-ignore eqeqeq
-      if (variable == null) {
-        if (throwIfMissingVariable) {
-          throw new CommentTemplateError(`Missing variable: '${name}'`);
-        }
+  const target = getIncludeTarget(include, props.path, includes);
+  const content = selectIncludeRegion(props.include(target.path), target);
+  const report = renderTemplate(
+    { ...getIncludeProps(props, content, target), include: props.include },
+    [...includes, target.key],
+  );
 
-        continue;
+  return report.content;
+}
+
+/**
+ * The same as `commentTemplate` except variable functions can return a
+ * promise.
+ *
+ * Variable functions are only called for the tags which are present in the
+ * content, so expensive values are only computed when they are used. A
+ * function is called once for each distinct current value of its tags.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import {
+ *   commentTemplateAsync,
+ * } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const transformed = await commentTemplateAsync({
+ *   content: "<!-- ={version} --><!-- {/version} -->",
+ *   variables: {
+ *     version: () => Promise.resolve("1.0.0"),
+ *     // Never called since the tag is not in the content.
+ *     apiDocs: () => Promise.reject(new Error("unused")),
+ *   },
+ *   concurrency: 2,
+ * });
+ *
+ * assertEquals(transformed, "<!-- ={version} -->1.0.0<!-- {/version} -->");
+ * ```
+ */
+export async function commentTemplateAsync(
+  props: CommentTemplateAsyncProps,
+): Promise<string> {
+  const report = await renderTemplateAsync(props, []);
+  return report.content;
+}
+
+/**
+ * Render the template with variable functions which can return a promise.
+ */
+async function renderTemplateAsync(
+  props: CommentTemplateAsyncProps,
+  includes: readonly string[],
+): Promise<CommentTemplateReport> {
+  const { variables, concurrency = Infinity } = props;
+
+  if (!(concurrency >= 1)) {
+    throw new CommentTemplateError(
+      `The concurrency must be at least 1: ${concurrency}`,
+    );
+  }
+
+  const cache = new Map<string, Promise<string | undefined>>();
+  const walker = walkTemplate(props);
+  let result = walker.next();
+
+  const resolve = (node: TemplateBlockNode) => {
+    if (node.include !== undefined) {
+      const include = node.include;
+      const key = JSON.stringify([node.name, include]);
+      let promise = cache.get(key);
+
+      if (!promise) {
+        promise = includeTemplateAsync(props, include, includes);
+        cache.set(key, promise);
       }
 
-      const before = transformed.slice(0, replaceStart);
-      const after = transformed.slice(replaceEnd, transformed.length);
-      transformed = `${before}${replacementValue}${after}`;
+      return promise;
+    }
+
+    const variable = resolveVariable<CommentTemplateAsyncVariableFunction>(
+      variables,
+      node.name,
+    );
+
+    if (typeof variable !== "function") {
+      return variable;
+    }
+
+    const key = JSON.stringify([node.name, node.value]);
+    let promise = cache.get(key);
+
+    if (!promise) {
+      promise = Promise.resolve(variable(node.value));
+      cache.set(key, promise);
     }
+
+    return promise;
+  };
+
+  while (!result.done) {
+    const nodes = result.value;
+    // Each level of nested blocks depends on the values of the previous level.
+    // deno-lint-ignore no-await-in-loop
+    const resolved = await mapConcurrent(nodes, concurrency, resolve);
+    const values: VariableValues = new Map(
+      nodes.map((node, index) => [node, resolved[index]]),
+    );
+
+    result = walker.next(values);
   }
 
-  return transformed;
+  return result.value;
 }
 
-const pipes = {
-  trim: () => (value: string) => value.trim(),
-  trimStart: () => (value: string) => value.trimStart(),
-  trimEnd: () => (value: string) => value.trimEnd(),
-  string: (singleQuotes = false) =>
-    (value: string) => {
-      const quoteType = singleQuotes ? "'" : '"';
-      return `${quoteType}${value}${quoteType}`;
-    },
-  prefix: (prefix = "") =>
-    (value: string) => {
-      return `${prefix.replace(/\\n/g, "\n")}${value}`;
-    },
-  suffix: (suffix = "") =>
-    (value: string) => {
-      return `${value}${suffix.replace(/\\n/g, "\n")}`;
-    },
-  codeblock: (language = "") =>
-    (value: string) => {
-      return `\`\`\`${language}\n${value}\n\`\`\``;
-    },
-  indent: (indent = "") =>
-    (value: string) => {
-      return value
-        .split("\n")
-        // .map((line) => `${indent}${line}`)
-        // .join("\n");
-        .join(`\n${indent}`);
-    },
-  code: () =>
-    (value: string) => {
-      return `\`${value}\``;
-    },
-  replace: (value = "") => {
-    const [search = "", replace = ""] = value.split(",");
-    return (value: string) => {
-      return value.replaceAll(search, replace);
-    };
-  },
-};
+async function includeTemplateAsync(
+  props: CommentTemplateAsyncProps,
+  include: string,
+  includes: readonly string[],
+): Promise<string | undefined> {
+  if (!props.include) {
+    return;
+  }
 
-type Piper = (value: string) => string;
-interface ArgToken {
-  type: "arg";
-  value: string | null | number | boolean;
-}
-interface PipeToken {
-  type: "pipe";
-  name: string;
+  const target = getIncludeTarget(include, props.path, includes);
+  const content = selectIncludeRegion(await props.include(target.path), target);
+  const report = await renderTemplateAsync(
+    { ...getIncludeProps(props, content, target), include: props.include },
+    [...includes, target.key],
+  );
+
+  return report.content;
 }
-type Token = PipeToken | ArgToken;
-const primitives = {
-  null: null,
-  true: true,
-  false: false,
-};
 
 /**
- * The identity function for pipes.
+ * Check that the templated blocks in the content are up to date without
+ * changing anything.
+ *
+ * This runs the same substitution as `commentTemplate` and returns every
+ * block where the current content is different from the content which would
+ * be generated. When `throwIfStale` is `true` a `StaleTemplateError` listing
+ * the stale blocks is thrown instead, which makes it a one line check in CI.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import {
+ *   checkTemplate,
+ *   StaleTemplateError,
+ * } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals, assertThrows } from "./tests/deps.ts";
+ *
+ * const props = {
+ *   content: "# Title\n\n<!-- ={version} -->1.0.0<!-- {/version} -->",
+ *   variables: { version: "2.0.0" },
+ *   path: "readme.md",
+ * };
+ * const stale = checkTemplate(props);
+ *
+ * assertEquals(stale.map(({ name, line }) => [name, line]), [["version", 3]]);
+ * assertThrows(
+ *   () => checkTemplate({ ...props, throwIfStale: true }),
+ *   StaleTemplateError,
+ *   "readme.md:3",
+ * );
+ * ```
  */
-function identity(value: string) {
-  return value;
+export function checkTemplate(props: CheckTemplateProps): StaleBlock[] {
+  const { replacements } = commentTemplateWithReport(props);
+  return getStaleBlocks(props, replacements);
 }
 
 /**
- * Combine a list of pipes into a single piper.
+ * Check that the templated blocks in the content are up to date like
+ * `checkTemplate`, with variable functions and an `include` function which can
+ * return a promise.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { checkTemplateAsync } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const stale = await checkTemplateAsync({
+ *   content: "<!-- ={version} -->1.0.0<!-- {/version} -->",
+ *   variables: { version: () => Promise.resolve("2.0.0") },
+ * });
+ *
+ * assertEquals(stale.map(({ name, line }) => [name, line]), [["version", 1]]);
+ * ```
  */
-function combine(...pipes: Piper[]) {
-  return (value: string) => {
-    for (const pipe of pipes) {
-      value = pipe(value);
-    }
-
-    return value;
-  };
+export async function checkTemplateAsync(
+  props: CheckTemplateAsyncProps,
+): Promise<StaleBlock[]> {
+  const { replacements } = await renderTemplateAsync(props, []);
+  return getStaleBlocks(props, replacements);
 }
 
 /**
- * Create a pipe function from a pipe name and arguments.
+ * Get the replaced blocks which are different from their current content and
+ * throw when `throwIfStale` is `true` and any are found.
  */
-function createPiper(pipeString: string | undefined): Piper {
-  const fns: Piper[] = [identity];
-
-  if (!pipeString) {
-    return combine(...fns);
-  }
-
-  let index = 0;
-  const tokens: Token[] = [];
-  while (index < pipeString.length) {
-    const char = pipeString[index];
-
-    if (!char) break;
-
-    if (char === "|") {
-      index++; // Skip the pipe character
-      const remaining = pipeString.slice(index);
-      const nextIndex = remaining.search(/[^a-z_A-Z0-9$]/);
-      tokens.push({ type: "pipe", name: remaining.slice(0, nextIndex) });
-      index += nextIndex;
+function getStaleBlocks(
+  props: Pick<CheckTemplateProps, "content" | "path" | "throwIfStale">,
+  replacements: readonly CommentTemplateReplacement[],
+): StaleBlock[] {
+  const { content, path, throwIfStale = false } = props;
+  const getLine = createLineCounter(content);
+  const stale: StaleBlock[] = [];
+
+  for (const { name, start, end, before, after } of replacements) {
+    if (before === after) {
       continue;
     }
 
-    if (char === ":") {
-      let shouldContinue = false;
-      index++;
+    stale.push({
+      name,
+      start,
+      end,
+      line: getLine(start),
+      endLine: getLine(end),
+      before,
+      after,
+    });
+  }
 
-      for (const [name, value] of entries(primitives)) {
-        if (pipeString.slice(index, index + name.length) !== name) {
-          continue;
-        }
+  if (throwIfStale && stale.length > 0) {
+    throw new StaleTemplateError(stale, path);
+  }
 
-        tokens.push({ type: "arg", value });
-        index += name.length;
-        shouldContinue = true;
-        break;
-      }
+  return stale;
+}
 
-      if (shouldContinue) {
-        continue;
-      }
+/**
+ * Create a function which returns the 1-based line number of an index within
+ * the content.
+ */
+function createLineCounter(content: string): (index: number) => number {
+  const lineStarts = [0];
 
-      let value = pipeString[index];
+  for (let index = 0; index < content.length; index++) {
+    if (content.charAt(index) === "\n") {
+      lineStarts.push(index + 1);
+    }
+  }
 
-      if (!value) break;
+  return (index: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
 
-      if (value === '"') {
-        index++;
-        value = pipeString.slice(index, pipeString.indexOf('"', index));
-        tokens.push({ type: "arg", value });
-        index += value.length + 1;
-        continue;
-      }
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
 
-      if (/[\.0-9_]/.test(value)) {
-        const remaining = pipeString.slice(index);
-        const nextIndex = remaining.search(/[^\.0-9_]/);
-        const value = Number(remaining.slice(0, nextIndex));
-        tokens.push({ type: "arg", value });
-        index += nextIndex;
-        continue;
+      if ((lineStarts[middle] ?? 0) <= index) {
+        low = middle;
+      } else {
+        high = middle - 1;
       }
     }
 
-    index++;
-  }
-
-  let args: ArgToken["value"][] = [];
-  let fn: // deno-lint-ignore no-explicit-any
-    ((...args: any[]) => Piper) | undefined;
+    return low + 1;
+  };
+}
 
-  for (const token of tokens) {
-    if (token.type === "arg") {
-      args.push(token.value);
-      continue;
-    }
+/**
+ * Regions and nested include tags are searched for with every built in
+ * pattern since the included file can use any comment syntax.
+ */
+const INCLUDE_PATTERNS: CommentPattern[] = [
+  "xml",
+  "jsx",
+  "slash",
+  "line",
+  "hash",
+];
 
-    if (fn) {
-      fns.push(fn(...args));
-      args = [];
-      fn = undefined;
-    }
+/**
+ * The resolved file and region of an include tag.
+ */
+interface IncludeTarget {
+  path: string;
+  region: string | undefined;
 
-    if (!isPipeName(token.name)) {
-      throw new CommentTemplateError(`Invalid pipe name: ${token.name}`);
-    }
+  /**
+   * Identifies the included content when checking for cycles.
+   */
+  key: string;
+}
 
-    fn = pipes[token.name];
+/**
+ * Resolve the path and region of an include tag and make sure it isn't
+ * already being included.
+ */
+function getIncludeTarget(
+  include: string,
+  from: string | undefined,
+  includes: readonly string[],
+): IncludeTarget {
+  const hash = include.indexOf("#");
+  const file = hash === -1 ? include : include.slice(0, hash);
+  const region = hash === -1 ? undefined : include.slice(hash + 1);
+  // A tag with only a `#region` includes a region of the same file.
+  const resolved = file ? resolveIncludePath(file, from) : from;
+
+  if (!resolved || region === "") {
+    throw new CommentTemplateError(`Invalid include: '${include}'`);
   }
 
-  if (fn) {
-    fns.push(fn(...args));
+  const key = region === undefined ? resolved : `${resolved}#${region}`;
+
+  if (includes.includes(key)) {
+    throw new CommentTemplateError(
+      `Include cycle detected: ${[...includes, key].join(" -> ")}`,
+    );
   }
 
-  return combine(...fns);
+  return { path: resolved, region, key };
 }
 
-function isPipeName(value: string): value is keyof typeof pipes {
-  return Object.keys(pipes).includes(value);
+/**
+ * Resolve the path relative to the directory of the file which includes it.
+ */
+function resolveIncludePath(file: string, from: string | undefined): string {
+  return from ? path.resolve(path.dirname(from), file) : file;
 }
 
 /**
- * This matches a variable in the markdown content and provides the following
- * named variables.
- *
- * - `open`: The opening comment tag which captures everything up to the
- *   position of the replacement content. It has the same starting index as the
- *   full match.
- * - `close`: The closing comment tag which captures everything after the
- *   position of the replacement content. It has the same ending index as the
- *   full match.
- * - `name`: The name of the variable which is reference via the `variables`
- *   passed into the markdown template function.
- * - `pipes`: A series of pipes that .
- * - `value`: The current value stored between the tags. If a function is
- *   provided it will be called with the value.
+ * Get the trimmed content of the included file or of its region.
  */
-const XML_COMMENT_VARIABLE =
-  /(?<open><!--\s*=\{(?<name>[a-z_A-Z$][a-z_A-Z0-9$\.]*)(?<pipes>(?:\|[a-z_A-Z0-9$]+(?::(?:null|true|false|[0-9_\.]+|"[^"]*")*))*)\}\s*-->)(?<value>.*)(?<close><!--\s*\{\/\k<name>\}\s*-->)/gms;
-const SLASH_COMMENT_VARIABLE =
-  /(?<open>\/\*\s*=\{(?<name>[a-z_A-Z$][a-z_A-Z0-9$\.]*)(?<pipes>(?:\|[a-z_A-Z0-9$]+(?::(?:null|true|false|[0-9_\.]+|"[^"]*")))*)\}\s*\*\\)(?<value>.*)(?<close>\/\*\s*\{\/\k<name>\}\s*\*\\)/gms;
+function selectIncludeRegion(content: string, target: IncludeTarget): string {
+  if (target.region === undefined) {
+    return content.trim();
+  }
 
-// (?:string|prefix|suffix|codeblock|indent|code|replace)
+  const snippets = extractTemplateSnippets(content, {
+    patterns: INCLUDE_PATTERNS,
+  });
+  const snippet = snippets.get(target.region);
 
-const PATTERNS = {
-  /**
-   * Match `<!-- ={name} --><!-- {/name} -->`
-   */
-  xml: XML_COMMENT_VARIABLE,
-  /**
-   * Match `/* ={name} *+//* {/name} *+/`
-   */
-  slash: SLASH_COMMENT_VARIABLE,
-};
+  if (!snippet) {
+    throw new CommentTemplateError(
+      `The region '${target.region}' was not found in '${target.path}'`,
+    );
+  }
 
-type Pattern = keyof typeof PATTERNS;
+  return snippet.value;
+}
 
 /**
- * The error that is thrown when a variable in the template doesn't exist.
+ * The props used to render the include tags within included content.
  */
-export class CommentTemplateError extends Error {
-  /**
-   * Predicate to check that the value provided is a `CommentTemplateError`.
-   *
-   * Useful for verifying within a `catch` block.
-   *
-   * ```ts
-   * import { commentTemplate, CommentTemplateError } from './mod.ts';
-   * const variables = { exampleValue: 'hello!' };
-   *
-   * try {
-   *   const content = await Deno.readTextFile(new URL('readme.md', import.meta.url));
-   *   commentTemplate({ content, variables, throwIfMissingVariable: true });
-   * } catch (error) {
-   *   if (CommentTemplateError.is(error)) {
-   *    // this is an error!
-   *   }
-   * }
-   * ```
-   */
-  static is(value: unknown): value is CommentTemplateError {
-    return value instanceof CommentTemplateError;
-  }
-
-  constructor(message: string) {
-    super(message);
-  }
+function getIncludeProps(
+  props: Pick<CommentTemplateProps, "pipes">,
+  content: string,
+  target: IncludeTarget,
+) {
+  return {
+    content,
+    variables: {},
+    patterns: INCLUDE_PATTERNS,
+    pipes: props.pipes,
+    path: target.path,
+  };
 }
 
-type CommentTemplateVariableFunction = (
-  currentValue: string | undefined,
-) => string;
-
-interface CommentTemplateVariables {
-  [name: string]: string | CommentTemplateVariableFunction;
-}
+/**
+ * The raw values of the variables for each block, before the pipes are
+ * applied. Missing variables are `undefined`.
+ */
+type VariableValues = Map<TemplateBlockNode, unknown>;
 
 /**
- * These are the props that are passed into the `commentTemplate` function.
+ * Transform the content one level of nested blocks at a time.
+ *
+ * Each level yields the variable blocks which need a value and expects the
+ * values to be passed back to `next()`. This lets `commentTemplate` resolve
+ * the values synchronously while `commentTemplateAsync` resolves them
+ * concurrently. The report is returned once every level is done.
  */
-export interface CommentTemplateProps {
-  /**
-   * This is the content to transform and is required.
-   *
-   * ### Examples
-   *
+function* walkTemplate(
+  props: Omit<CommentTemplateProps, "variables" | "include"> & {
+    variables: TemplateVariables<VariableFunction>;
+  },
+): Generator<TemplateBlockNode[], CommentTemplateReport, VariableValues> {
+  const {
+    content,
+    variables,
+    throwIfMissingVariable = false,
+    patterns = ["slash", "xml"],
+    exclude,
+    pipes: customPipes,
+    autoindent = false,
+    locale = "en-US",
+    timeZone = "UTC",
+    now = Date.now(),
+  } = props;
+
+  if (customPipes && Object.hasOwn(customPipes, AUTOINDENT)) {
+    throw new CommentTemplateError(
+      `The pipe name '${AUTOINDENT}' is reserved and can't be used by a custom pipe`,
+    );
+  }
+
+  const availablePipes = {
+    ...createFormatPipes({ locale, timeZone, now: new Date(now).getTime() }),
+    ...customPipes,
+  };
+  const { blocks } = parseTemplate(content, { patterns });
+  const replacements: CommentTemplateReplacement[] = [];
+  const missing: CommentTemplateMissingVariable[] = [];
+  const used = new Set<string>();
+  let level: TemplateBlockNode[] = blocks;
+
+  while (level.length > 0) {
+    const nodes = level.filter((node) => node.kind !== "snippet");
+    const values = nodes.length > 0 ? yield nodes : new Map();
+    const nextLevel: TemplateBlockNode[] = [];
+
+    for (const node of level) {
+      if (node.kind === "snippet") {
+        nextLevel.push(...node.children);
+        continue;
+      }
+
+      const { name, value, open, close } = node;
+      const variable = node.kind === "repeat"
+        ? repeatTemplate(values.get(node), node)
+        : values.get(node);
+      const isMissing = variable === undefined;
+      const toggled = node.kind === "condition" && !isMissing
+        ? toggleCondition(node, isTruthy(name, variable))
+        : undefined;
+      let replacementValue = "";
+      let revealed: CommentTemplateReport | undefined;
+
+      if (toggled?.visible) {
+        // The revealed content is transformed as well since its tags were
+        // hidden within a comment.
+        revealed = yield* walkTemplate({
+          ...props,
+          now,
+          content: toggled.content,
+        });
+        replacementValue = revealed.content;
+      } else if (toggled) {
+        replacementValue = toggled.content;
+      } else if (node.kind === "condition" || isMissing) {
+        replacementValue = isMissing ? "" : value;
+      } else {
+        const [pipeNodes, indented] = splitAutoindent(
+          node.pipes.filter(({ name }) => !isRepeatOption(node, name)),
+          autoindent,
+        );
+        // Pipes are only resolved for the variables which are provided.
+        const piped = createPiper(pipeNodes, name, availablePipes)(variable);
+        replacementValue = indented
+          ? indentReplacement(content, node, piped)
+          : piped;
+      }
+
+      const details: ExcludeDetails = {
+        end: close.end,
+        start: open.start,
+        name,
+        replaceEnd: close.start,
+        replaceStart: open.end,
+        fullMatch: content.slice(open.start, close.end),
+        value: replacementValue,
+      };
+
+      if (!isMissing && node.include === undefined) {
+        used.add(getVariableKey(variables, name));
+      }
+
+      if (exclude?.(details)) {
+        nextLevel.push(...node.children);
+        continue;
+      }
+
+      if (isMissing) {
+        if (throwIfMissingVariable) {
+          throw new CommentTemplateError(`Missing variable: '${name}'`);
+        }
+
+        missing.push({ name, start: open.start, end: close.end });
+        nextLevel.push(...node.children);
+        continue;
+      }
+
+      // A condition which is already shown or hidden is left as it is.
+      if (node.kind === "condition" && !toggled) {
+        nextLevel.push(...node.children);
+        continue;
+      }
+
+      if (revealed) {
+        const ranges = toggled?.ranges ?? [];
+        const unused = new Set(revealed.unused);
+        Object.keys(variables)
+          .filter((key) => !unused.has(key))
+          .forEach((key) => used.add(key));
+        missing.push(
+          ...revealed.missing.map((block) => ({
+            ...block,
+            start: open.end + getHiddenOffset(ranges, block.start),
+            // The end is exclusive so it's mapped from the last character.
+            end: open.end + getHiddenOffset(ranges, block.end - 1) + 1,
+          })),
+        );
+      }
+
+      assertBalancedTags(node, replacementValue);
+
+      // The replaced content contains the nested blocks so they are not
+      // visited.
+      replacements.push({
+        name,
+        start: open.end,
+        end: close.start,
+        before: value,
+        after: isLineComment(node.pattern)
+          ? withLineBreak(content, node, replacementValue)
+          : replacementValue,
+      });
+    }
+
+    level = nextLevel;
+  }
+
+  replacements.sort((a, z) => a.start - z.start);
+  missing.sort((a, z) => a.start - z.start);
+  const transformed = applyReplacements(content, replacements);
+
+  return {
+    content: transformed,
+    changed: transformed !== content,
+    replacements,
+    missing,
+    unused: Object.keys(variables).filter((key) => !used.has(key)),
+  };
+}
+
+/**
+ * Throw when the replacement contains tags which would change where blocks
+ * end the next time the content is transformed, e.g. a value containing the
+ * `<!-- {/name} -->` tag of its own block.
+ *
+ * Every closing tag must close an opening tag within the replacement and
+ * every opening tag with the name of the block must be closed.
+ */
+function assertBalancedTags(node: TemplateBlockNode, value: string): void {
+  const open: string[] = [];
+
+  for (const tag of scanTags(value, node.pattern)) {
+    if (tag.type === "open") {
+      open.push(tag.name);
+      continue;
+    }
+
+    const index = open.lastIndexOf(tag.name);
+
+    if (index === -1) {
+      throw new CommentTemplateError(
+        `The value of '${node.name}' can't contain the closing tag '{/${tag.name}}'`,
+      );
+    }
+
+    open.length = index;
+  }
+
+  if (open.includes(node.name)) {
+    throw new CommentTemplateError(
+      `The value of '${node.name}' can't contain an unclosed '${node.name}' tag`,
+    );
+  }
+}
+
+/**
+ * Map the items with at most `limit` calls of `fn` pending at a time.
+ */
+async function mapConcurrent<Item, Value>(
+  items: readonly Item[],
+  limit: number,
+  fn: (item: Item) => Value | Promise<Value>,
+): Promise<Value[]> {
+  const results: Value[] = [];
+  let index = 0;
+
+  const worker = async () => {
+    while (index < items.length) {
+      const current = index++;
+      // deno-lint-ignore no-await-in-loop
+      results[current] = await fn(items[current] as Item);
+    }
+  };
+
+  const workers = Math.min(limit, items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  return results;
+}
+
+/**
+ * Remove the `autoindent` pipes from the pipes of a block and return whether
+ * the replacement should be indented. The last `autoindent` pipe overrides the
+ * `autoindent` prop.
+ */
+function splitAutoindent(
+  pipeNodes: readonly TemplatePipeNode[],
+  autoindent: boolean,
+): [TemplatePipeNode[], boolean] {
+  const rest: TemplatePipeNode[] = [];
+
+  for (const pipe of pipeNodes) {
+    if (pipe.name !== AUTOINDENT) {
+      rest.push(pipe);
+      continue;
+    }
+
+    const [enabled = true] = pipe.args;
+
+    if (typeof enabled !== "boolean") {
+      throw new CommentTemplateError(
+        `The pipe '${AUTOINDENT}' expects a boolean argument`,
+      );
+    }
+
+    autoindent = enabled;
+  }
+
+  return [rest, autoindent];
+}
+
+const AUTOINDENT = "autoindent";
+
+/**
+ * The whitespace, comment gutter and list marker at the start of a line, e.g.
+ * the ` * ` of a JSDoc comment or the `# ` of a YAML comment. The opening `/**`
+ * of a JSDoc comment is matched so that it can be replaced with a gutter.
+ */
+const LINE_INDENT =
+  /^([ \t]*)(?:(\/\*\*?|\*(?!\/)|\/\/|#|--|>)(?=[ \t]|$)[ \t]*)?((?:[-+*]|\d+[.)])[ \t]+)?/;
+
+/**
+ * Indent the replacement to match the line of the opening tag.
+ *
+ * The blocks of line comments take up whole lines so every line is indented.
+ * Other blocks keep a single line value inline, while multiline values are
+ * moved onto their own lines with the closing tag on the line after them.
+ */
+function indentReplacement(
+  content: string,
+  { open, pattern }: TemplateBlockNode,
+  value: string,
+): string {
+  const lineStart = content.lastIndexOf("\n", open.start - 1) + 1;
+  const [match = "", space = "", gutter, marker = ""] =
+    LINE_INDENT.exec(content.slice(lineStart, open.start)) ?? [];
+  // The content of a list item is aligned with the text after the marker.
+  const prefix = match.slice(0, match.length - marker.length) +
+    " ".repeat(marker.length);
+  const indent = gutter?.startsWith("/*")
+    ? `${space} * `
+    : isLineComment(pattern)
+    ? space
+    : prefix;
+  const lineBreak = getLineBreak(content, open.start);
+  const lines = value.replace(/(\r?\n)+$/, "").split(/\r?\n/);
+  const indented = lines.map((line) =>
+    line ? `${indent}${line}` : indent.trimEnd()
+  );
+
+  if (isLineComment(pattern)) {
+    return value ? indented.join(lineBreak) : value;
+  }
+
+  if (lines.length === 1) {
+    return value;
+  }
+
+  return `${lineBreak}${indented.join(lineBreak)}${lineBreak}${indent}`;
+}
+
+/**
+ * Get the line break of the line at the index, or of the line before it when
+ * it's the last line, so that replacements keep the line endings of the
+ * content.
+ */
+function getLineBreak(content: string, index: number): string {
+  const lineEnd = content.indexOf("\n", index);
+  const at = lineEnd === -1 ? content.lastIndexOf("\n", index) : lineEnd;
+
+  return content.charAt(at - 1) === "\r" ? "\r\n" : "\n";
+}
+
+/**
+ * The pipes of a repeat block which configure how the items are rendered.
+ * They are applied before the other pipes.
+ *
+ * - `template` is rendered for each item. `{key}` is replaced with the value
+ *   of the key, or dotted path, of the item and `{.}` with the item itself.
+ * - `separator` is placed between the rendered items.
+ */
+const REPEAT_OPTIONS = { template: "{.}", separator: "\n" };
+
+function isRepeatOption(node: TemplateBlockNode, name: string): boolean {
+  return node.kind === "repeat" && Object.hasOwn(REPEAT_OPTIONS, name);
+}
+
+const ITEM_PLACEHOLDER = /\{(\.|[a-z_A-Z$][a-z_A-Z0-9$.]*)\}/g;
+
+/**
+ * Render the template of a repeat block for each item of the resolved value
+ * of its variable. Returns `undefined` when the variable is missing.
+ */
+function repeatTemplate(
+  items: unknown,
+  node: TemplateBlockNode,
+): string | undefined {
+  if (items === undefined || items === null) {
+    return;
+  }
+
+  if (!Array.isArray(items)) {
+    throw new CommentTemplateError(
+      `The variable '${node.name}' must be an array to be repeated`,
+    );
+  }
+
+  const options = { ...REPEAT_OPTIONS };
+
+  for (const { name, args } of node.pipes) {
+    if (isRepeatOption(node, name)) {
+      const [arg = ""] = args;
+      options[name as keyof typeof options] = String(arg);
+    }
+  }
+
+  const { template, separator } = options;
+
+  return items
+    .map((item, index) =>
+      template.replace(ITEM_PLACEHOLDER, (_, path: string) => {
+        const value = path === "." ? item : lookupVariable(item, path);
+
+        if (
+          (typeof value === "object" && value !== null) ||
+          typeof value === "function"
+        ) {
+          throw new CommentTemplateError(
+            `The value of '{${path}}' for item ${index} of '${node.name}' must be a string, number or boolean`,
+          );
+        }
+
+        return String(value ?? "");
+      })
+    )
+    .join(separator);
+}
+
+/**
+ * The values of a condition which hide its content.
+ */
+const FALSY_VALUES = new Set(["", "false", "0"]);
+
+/**
+ * Check whether the variable of a condition shows its content. Empty arrays
+ * are falsy while other arrays and objects are truthy.
+ */
+function isTruthy(name: string, variable: unknown): boolean {
+  if (Array.isArray(variable)) {
+    return variable.length > 0;
+  }
+
+  if (typeof variable === "object" && variable !== null) {
+    return true;
+  }
+
+  return !FALSY_VALUES.has(toText(name, variable).trim());
+}
+
+/**
+ * Show or hide the content of a condition block.
+ *
+ * Hidden content is commented out with the comment pattern of the block so
+ * that it can be shown again on a later run. Returns `undefined` when the
+ * content is already shown or hidden.
+ */
+function toggleCondition(
+  node: TemplateBlockNode,
+  truthy: boolean,
+): { visible: boolean; content: string; ranges?: ShownRange[] } | undefined {
+  const visible = truthy !== Boolean(node.negate);
+  const ranges = getHiddenContent(node);
+
+  if (visible) {
+    if (ranges === undefined) {
+      return;
+    }
+
+    const content = ranges.map(([start, end]) => node.value.slice(start, end));
+    return { visible, content: content.join(""), ranges };
+  }
+
+  if (ranges !== undefined || !node.value.trim()) {
+    return;
+  }
+
+  return { visible, content: hideContent(node) };
+}
+
+/**
+ * A range of the value of a condition block which is kept when its hidden
+ * content is shown.
+ */
+type ShownRange = [start: number, end: number];
+
+/**
+ * Get the ranges of a condition block which make up the content hidden by
+ * `hideContent`. Showing the content only removes the comment delimiters and
+ * escapes, so the ranges map the shown content back to the block. Returns
+ * `undefined` when the content isn't commented out.
+ */
+function getHiddenContent(
+  { pattern, value }: TemplateBlockNode,
+): ShownRange[] | undefined {
+  const { open, close } = getDelimiters(pattern);
+
+  if (!close) {
+    const lines = value.split("\n");
+    const commented = lines.filter((line) => line.trim());
+    const prefix = new RegExp(`^([ \\t]*)${escapeRegExp(open)} ?`);
+
+    if (
+      commented.length === 0 || !commented.every((line) => prefix.test(line))
+    ) {
+      return;
+    }
+
+    const ranges: ShownRange[] = [];
+    let start = 0;
+
+    for (const line of lines) {
+      const [removed = "", indentation = ""] = prefix.exec(line) ?? [];
+      const end = start + line.length;
+
+      ranges.push(
+        [start, start + indentation.length],
+        [start + removed.length, Math.min(end + 1, value.length)],
+      );
+      start = end + 1;
+    }
+
+    return ranges;
+  }
+
+  const trimmed = value.trim();
+  const inner = trimmed.slice(open.length, -close.length);
+  const padding = /^ [^]* $/.test(inner) ? 1 : 0;
+
+  if (
+    trimmed.length < open.length + close.length || !trimmed.startsWith(open) ||
+    !trimmed.endsWith(close) ||
+    inner.slice(padding, inner.length - padding).includes(close)
+  ) {
+    return;
+  }
+
+  const start = value.indexOf(open);
+  const end = start + trimmed.length;
+
+  return [
+    [0, start],
+    ...getUnescapedRanges(
+      value,
+      start + open.length + padding,
+      end - close.length - padding,
+      close,
+    ),
+    [end, value.length],
+  ];
+}
+/**
+ * Comment out the content of a condition block. Each line of a line comment
+ * block is commented out after its indentation, while other blocks are
+ * wrapped in a single comment.
+ */
+function hideContent({ pattern, value }: TemplateBlockNode): string {
+  const { open, close } = getDelimiters(pattern);
+
+  if (!close) {
+    return value
+      .split("\n")
+      .map((line) => line.trim() ? line.replace(/^[ \t]*/, `$&${open} `) : line)
+      .join("\n");
+  }
+
+  const start = value.search(/\S/);
+  const end = value.trimEnd().length;
+  const hidden = escapeClose(value.slice(start, end), close, true);
+
+  return `${value.slice(0, start)}${open} ${hidden} ${close}${
+    value.slice(end)
+  }`;
+}
+
+/**
+ * The closing delimiter can't appear within the comment which hides the
+ * content, e.g. the `-->` of nested tags. A backslash is added before the last
+ * character of the delimiter, and of any escaped delimiters, when hiding the
+ * content and removed again when showing it, so `-->` becomes `--\>`.
+ */
+function escapeClose(value: string, close: string, hide: boolean): string {
+  const head = close.slice(0, -1);
+  const tail = close.slice(-1);
+  const regex = new RegExp(
+    `${escapeRegExp(head)}(\\\\*)${escapeRegExp(tail)}`,
+    "g",
+  );
+
+  return value.replace(regex, (_, slashes: string) => {
+    return `${head}${hide ? `${slashes}\\` : slashes.slice(1)}${tail}`;
+  });
+}
+
+/**
+ * Get the ranges between `start` and `end` which are kept when the escaped
+ * closing delimiters are shown by `escapeClose`.
+ */
+function getUnescapedRanges(
+  value: string,
+  start: number,
+  end: number,
+  close: string,
+): ShownRange[] {
+  const head = close.slice(0, -1);
+  const regex = new RegExp(
+    `${escapeRegExp(head)}\\\\+${escapeRegExp(close.slice(-1))}`,
+    "g",
+  );
+  const ranges: ShownRange[] = [];
+  let kept = start;
+
+  for (const match of value.slice(start, end).matchAll(regex)) {
+    const slash = start + (match.index ?? 0) + head.length;
+    ranges.push([kept, slash]);
+    kept = slash + 1;
+  }
+
+  ranges.push([kept, end]);
+  return ranges;
+}
+
+/**
+ * Map an offset within the shown content of a condition block back to the
+ * value of the block.
+ */
+function getHiddenOffset(ranges: ShownRange[], offset: number): number {
+  let shown = 0;
+
+  for (const [start, end] of ranges) {
+    if (offset < shown + end - start) {
+      return start + offset - shown;
+    }
+
+    shown += end - start;
+  }
+
+  return (ranges.at(-1)?.[1] ?? 0) + offset - shown;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * The closing tag of a line comment block must start on a new line. A line
+ * break is added to the replacement when it isn't part of the closing tag.
+ */
+function withLineBreak(
+  content: string,
+  { open, close }: TemplateBlockNode,
+  value: string,
+): string {
+  if (!value || /^\r?\n/.test(content.slice(close.start, close.start + 2))) {
+    return value;
+  }
+
+  return `${value}${content.charAt(open.end - 2) === "\r" ? "\r\n" : "\n"}`;
+}
+
+/**
+ * Apply the replacements, which must be ordered and non-overlapping, to the
+ * content in a single pass.
+ */
+function applyReplacements(
+  content: string,
+  replacements: readonly CommentTemplateReplacement[],
+): string {
+  let transformed = "";
+  let index = 0;
+
+  for (const { start, end, after } of replacements) {
+    transformed += `${content.slice(index, start)}${after}`;
+    index = end;
+  }
+
+  return `${transformed}${content.slice(index)}`;
+}
+
+const pipes = {
+  trim: () => (value: string) => value.trim(),
+  trimStart: () => (value: string) => value.trimStart(),
+  trimEnd: () => (value: string) => value.trimEnd(),
+  string: (singleQuotes = false) =>
+    (value: string) => {
+      const quoteType = singleQuotes ? "'" : '"';
+      return `${quoteType}${value}${quoteType}`;
+    },
+  prefix: (prefix = "") =>
+    (value: string) => {
+      return `${prefix}${value}`;
+    },
+  suffix: (suffix = "") =>
+    (value: string) => {
+      return `${value}${suffix}`;
+    },
+  codeblock: (language = "") =>
+    (value: string) => {
+      return `\`\`\`${language}\n${value}\n\`\`\``;
+    },
+  indent: (indent = "") =>
+    (value: string) => {
+      return value
+        .split("\n")
+        // .map((line) => `${indent}${line}`)
+        // .join("\n");
+        .join(`\n${indent}`);
+    },
+  code: () =>
+    (value: string) => {
+      return `\`${value}\``;
+    },
+  replace: (search?: string | RegExp, replacement?: string) => {
+    // A single argument holds both strings, e.g. `|replace:"search,replace"`.
+    const [pattern = "", replace = ""] =
+      replacement === undefined && typeof search === "string"
+        ? search.split(",")
+        : [search, replacement];
+
+    return (value: string) => {
+      return typeof pattern === "string"
+        ? value.replaceAll(pattern, replace)
+        : value.replace(pattern, replace);
+    };
+  },
+  escapeHtml: () =>
+    (value: string) => {
+      return value.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char] ?? char);
+    },
+  escapeMarkdown: () =>
+    (value: string) => {
+      return value.replace(/[\\`*_[\]()<>#|~!]/g, "\\$&");
+    },
+  escapeRegex: () =>
+    (value: string) => {
+      return escapeRegExp(value);
+    },
+  jsString: (singleQuotes = false) =>
+    (value: string) => {
+      // JSON escapes everything a string literal needs except the line and
+      // paragraph separators, which older engines treat as line breaks.
+      const escaped = JSON.stringify(value)
+        .replace(/\u2028/g, "\\u2028")
+        .replace(/\u2029/g, "\\u2029");
+
+      if (!singleQuotes) {
+        return escaped;
+      }
+
+      const content = escaped
+        .slice(1, -1)
+        .replace(/\\"|'/g, (match) => match === "'" ? "\\'" : '"');
+
+      return `'${content}'`;
+    },
+  jsonString: () =>
+    (value: string) => {
+      return JSON.stringify(value);
+    },
+  lines: (range: string | number = "") =>
+    (value: string) => {
+      const lines = value.split("\n");
+      const [start, end] = parseLineRange(String(range), lines.length);
+      return lines.slice(start - 1, end).join("\n");
+    },
+  first: (count = 1) => {
+    assertLineCount("first", count);
+
+    return (value: string) => {
+      return value.split("\n").slice(0, count).join("\n");
+    };
+  },
+  last: (count = 1) => {
+    assertLineCount("last", count);
+
+    return (value: string) => {
+      return count > 0 ? value.split("\n").slice(-count).join("\n") : "";
+    };
+  },
+  dedent: () =>
+    (value: string) => {
+      return dedent(value);
+    },
+  wrap: (width = 80) =>
+    (value: string) => {
+      return wrap(value, width);
+    },
+  upper: () => (value: string) => value.toUpperCase(),
+  lower: () => (value: string) => value.toLowerCase(),
+  title: () =>
+    (value: string) => {
+      return value.replace(/\S+/g, titleWord);
+    },
+  camelCase: () =>
+    (value: string) => {
+      return splitIdentifier(value)
+        .map((word, index) =>
+          index === 0 ? word.toLowerCase() : capitalize(word.toLowerCase())
+        )
+        .join("");
+    },
+  pascalCase: () =>
+    (value: string) => {
+      return splitIdentifier(value)
+        .map((word) => capitalize(word.toLowerCase()))
+        .join("");
+    },
+  kebabCase: () =>
+    (value: string) => {
+      return splitIdentifier(value).join("-").toLowerCase();
+    },
+  snakeCase: () =>
+    (value: string) => {
+      return splitIdentifier(value).join("_").toLowerCase();
+    },
+  constantCase: () =>
+    (value: string) => {
+      return splitIdentifier(value).join("_").toUpperCase();
+    },
+  truncate: (length = 80, ellipsis = "\u2026") =>
+    (value: string) => {
+      const chars = [...value];
+
+      if (chars.length <= length) {
+        return value;
+      }
+
+      const kept = Math.max(length - [...ellipsis].length, 0);
+      return `${chars.slice(0, kept).join("").trimEnd()}${ellipsis}`;
+    },
+};
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Match the words of identifiers and text in any script. An uppercase run
+ * followed by a capitalized word is split before its last letter, e.g.
+ * `XMLParser` is `XML` and `Parser`, and apostrophes are kept within words.
+ */
+const WORD =
+  /\p{Lu}+(?=\p{Lu}\p{Ll})|\p{Lu}?[\p{Ll}\p{M}]+(?:['\u2019]\p{Ll}+)?|\p{Lu}[\p{Lu}\p{M}]*|\p{N}+|[\p{L}\p{M}]+/gu;
+
+function splitWords(value: string): string[] {
+  return value.match(WORD) ?? [];
+}
+
+/**
+ * Split the value into words without apostrophes so they can be joined into
+ * an identifier.
+ */
+function splitIdentifier(value: string): string[] {
+  return splitWords(value).map((word) => word.replace(/['\u2019]/g, ""));
+}
+
+/**
+ * Capitalize the first letter of a word in a heading. Words which already
+ * contain an uppercase letter or a number are kept as they are, e.g. `iPhone`
+ * and `v0.1.1`.
+ */
+function titleWord(word: string): string {
+  return /[\p{Lu}\p{N}]/u.test(word)
+    ? word
+    : word.replace(/\p{L}/u, (letter) => letter.toUpperCase());
+}
+
+function capitalize(word: string): string {
+  const [first = "", ...rest] = word;
+  return `${first.toUpperCase()}${rest.join("")}`;
+}
+
+const LINE_RANGE = /^(\d*)(-?)(\d*)$/;
+
+/**
+ * Parse a 1-based and inclusive line range like `3-12`, `3-`, `-12` or `3`
+ * into the first and last line.
+ */
+function parseLineRange(range: string, count: number): [number, number] {
+  const match = range.replace(/\s/g, "").match(LINE_RANGE);
+
+  if (!match || (!match[1] && !match[3]) || /^0+$/.test(match[1] ?? "")) {
+    throw new CommentTemplateError(
+      `Invalid line range '${range}', expected e.g. "3-12", "3-" or "3"`,
+    );
+  }
+
+  const [, start = "", dash = "", end = ""] = match;
+  const first = start ? Number(start) : 1;
+  const last = end ? Number(end) : dash ? count : first;
+
+  if (first > last && end) {
+    throw new CommentTemplateError(
+      `Invalid line range '${range}', the first line is after the last line`,
+    );
+  }
+
+  return [first, last];
+}
+
+function assertLineCount(pipe: string, count: number): void {
+  if (!Number.isInteger(count) || count < 0) {
+    throw new CommentTemplateError(
+      `The pipe '${pipe}' expects a number of lines of at least 0, received '${count}'`,
+    );
+  }
+}
+
+/**
+ * Remove the indentation shared by every line which isn't blank.
+ */
+function dedent(value: string): string {
+  const lines = value.split("\n");
+  const indents = lines
+    .filter((line) => line.trim())
+    .map((line) => line.length - line.trimStart().length);
+  const shared = Math.min(...indents);
+
+  return Number.isFinite(shared)
+    ? lines.map((line) => line.slice(Math.min(shared, line.length))).join("\n")
+    : value;
+}
+
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const HARD_BREAK = /(?: {2}|\\)$/;
+
+/**
+ * Wrap each paragraph so its lines fit within the width. Words which are
+ * longer than the width are put on their own line.
+ *
+ * Paragraphs are separated by blank lines, list items and markdown line
+ * breaks, and keep the indentation of their first line. The lines of a list
+ * item are aligned with the text after its marker. Fenced code blocks are
+ * left as they are.
+ */
+function wrap(value: string, width: number): string {
+  const output: string[] = [];
+  let paragraph: string[] = [];
+  let fence: string | undefined;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      output.push(...wrapParagraph(paragraph, width));
+      paragraph = [];
+    }
+  };
+
+  for (const line of value.split("\n")) {
+    if (fence) {
+      output.push(line);
+      fence = line.trimStart().startsWith(fence) ? undefined : fence;
+      continue;
+    }
+
+    const opening = line.match(FENCE)?.[1];
+
+    if (opening || !line.trim()) {
+      flush();
+      output.push(line);
+      fence = opening;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      flush();
+    }
+
+    paragraph.push(line);
+
+    if (HARD_BREAK.test(line)) {
+      flush();
+    }
+  }
+
+  flush();
+  return output.join("\n");
+}
+
+function wrapParagraph(paragraph: readonly string[], width: number): string[] {
+  const [first = ""] = paragraph;
+  const indent = first.match(/^[ \t]*/)?.[0] ?? "";
+  const marker = first.match(LIST_ITEM)?.[0].slice(indent.length) ?? "";
+  const hanging = `${indent}${" ".repeat(marker.length)}`;
+  const words = paragraph.join(" ").slice(indent.length + marker.length)
+    .split(/\s+/)
+    .filter(Boolean);
+  const lines: string[] = [];
+  let line = `${indent}${marker}`;
+  let prefix = line;
+
+  for (const word of words) {
+    if (line !== prefix && line.length + 1 + word.length > width) {
+      lines.push(line);
+      line = prefix = hanging;
+    }
+
+    line = line === prefix ? `${line}${word}` : `${line} ${word}`;
+  }
+
+  // The trailing spaces of a markdown line break are kept.
+  const lineBreak = paragraph.at(-1)?.endsWith("  ") ? "  " : "";
+  return [...lines, `${line}${lineBreak}`];
+}
+
+/**
+ * The built in pipes which accept any value.
+ */
+const valuePipes = {
+  table: defineValuePipe((
+    columns: string = "",
+    headers: string = "",
+    align: string = "",
+  ) =>
+    (value: unknown) => {
+      return createTable(value, {
+        columns: splitList(columns),
+        headers: splitList(headers),
+        align: splitList(align),
+      });
+    }
+  ),
+  json: defineValuePipe((indent: number | string = 2) =>
+    (value: unknown) => {
+      return JSON.stringify(value, null, indent) ?? "";
+    }
+  ),
+  tsLiteral: defineValuePipe((indent: number | string = 2) =>
+    (value: unknown) => {
+      const space = typeof indent === "number" ? " ".repeat(indent) : indent;
+      return toLiteral(value, space, "");
+    }
+  ),
+};
+
+/**
+ * The locale and time zone used by the formatting pipes.
+ */
+interface FormatOptions {
+  locale: string;
+  timeZone: string;
+
+  /**
+   * The time in milliseconds which relative dates are formatted against.
+   */
+  now: number;
+}
+
+/**
+ * Create the built in pipes which format numbers and dates with `Intl` for the
+ * `locale` and `timeZone` props.
+ */
+function createFormatPipes(options: FormatOptions): CommentTemplatePipes {
+  const { locale } = options;
+
+  return {
+    number: defineValuePipe((numberLocale: string = locale) =>
+      (value: unknown) => {
+        const number = toNumber("number", value);
+        return new Intl.NumberFormat(numberLocale).format(number);
+      }
+    ),
+    percent: defineValuePipe((digits: number = 0) =>
+      (value: unknown) => {
+        return new Intl.NumberFormat(locale, {
+          style: "percent",
+          maximumFractionDigits: digits,
+        }).format(toNumber("percent", value));
+      }
+    ),
+    bytes: defineValuePipe((digits: number = 1) =>
+      (value: unknown) => {
+        return formatBytes(toNumber("bytes", value), digits, locale);
+      }
+    ),
+    date: defineValuePipe((format: string = "yyyy-MM-dd") =>
+      (value: unknown) => {
+        return formatDate(toDate(value), format, options);
+      }
+    ),
+  };
+}
+
+/**
+ * Convert a number or numeric string to a number.
+ */
+function toNumber(pipe: string, value: unknown): number {
+  const number = typeof value === "string" && value.trim()
+    ? Number(value)
+    : value;
+
+  if (typeof number !== "number" || !Number.isFinite(number)) {
+    throw new CommentTemplateError(
+      `The pipe '${pipe}' expects a number, received '${String(value)}'`,
+    );
+  }
+
+  return number;
+}
+
+/**
+ * Convert a date, a number of milliseconds since the epoch or a date string
+ * to a date. Numeric strings are parsed as dates, e.g. `2024` is the start of
+ * the year.
+ */
+function toDate(value: unknown): Date {
+  const date = value instanceof Date
+    ? value
+    : typeof value === "number" || typeof value === "string"
+    ? new Date(value)
+    : undefined;
+
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new CommentTemplateError(
+      `The pipe 'date' expects a date, received '${String(value)}'`,
+    );
+  }
+
+  return date;
+}
+
+const BYTE_UNITS = [
+  "kilobyte",
+  "megabyte",
+  "gigabyte",
+  "terabyte",
+  "petabyte",
+];
+
+/**
+ * Format a number of bytes with the largest decimal unit which keeps the
+ * value at or above `1`, e.g. `1.5 MB`. The unit is picked after rounding so
+ * `999_999` is `1 MB` rather than `1,000 kB`.
+ */
+function formatBytes(bytes: number, digits: number, locale: string): string {
+  const round = (value: number) => Number(value.toFixed(digits));
+  let exponent = Math.min(
+    Math.max(Math.floor(Math.log10(Math.abs(bytes)) / 3), 0),
+    BYTE_UNITS.length,
+  );
+
+  if (
+    exponent < BYTE_UNITS.length &&
+    Math.abs(round(bytes / 1000 ** exponent)) >= 1000
+  ) {
+    exponent++;
+  }
+
+  const unit = BYTE_UNITS[exponent - 1];
+  const value = bytes / 1000 ** exponent;
+
+  // The short display of a byte is `byte` in many locales, so `B` is used
+  // like the symbols of the larger units.
+  return unit
+    ? new Intl.NumberFormat(locale, {
+      style: "unit",
+      unit,
+      unitDisplay: "short",
+      maximumFractionDigits: digits,
+    }).format(value)
+    : `${
+      new Intl.NumberFormat(locale, { maximumFractionDigits: digits })
+        .format(value)
+    } B`;
+}
+
+const DATE_STYLES = ["full", "long", "medium", "short"];
+const DATE_TOKEN =
+  /'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|dd|d|EEEE|EEE|HH|H|hh|h|mm|ss|a/g;
+const RELATIVE_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ["second", 60],
+  ["minute", 60],
+  ["hour", 24],
+  ["day", 7],
+  ["week", 4.35],
+  ["month", 12],
+  ["year", Infinity],
+];
+
+/**
+ * Format a date with a pattern like `yyyy-MM-dd`, a date style like `long`, or
+ * relative to the current time with `relative`, e.g. `3 days ago`.
+ *
+ * Text within single quotes is kept as it is, e.g. `d 'of' MMMM`.
+ */
+function formatDate(
+  date: Date,
+  format: string,
+  options: FormatOptions,
+): string {
+  const { locale, timeZone, now } = options;
+
+  if (format === "relative") {
+    let difference = (date.getTime() - now) / 1000;
+
+    for (const [unit, size] of RELATIVE_UNITS) {
+      const rounded = Math.round(difference);
+
+      if (Math.abs(rounded) < size) {
+        return new Intl.RelativeTimeFormat(locale, { numeric: "auto" })
+          .format(rounded, unit);
+      }
+
+      difference /= size;
+    }
+  }
+
+  if (DATE_STYLES.includes(format)) {
+    return new Intl.DateTimeFormat(locale, {
+      dateStyle: format as Intl.DateTimeFormatOptions["dateStyle"],
+      timeZone,
+    }).format(date);
+  }
+
+  // The numeric parts don't depend on the locale, while the names of months,
+  // weekdays and day periods do.
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      hourCycle: "h23",
+    }).formatToParts(date).map(({ type, value }) => [type, value]),
+  );
+  const name = (style: Intl.DateTimeFormatOptions) =>
+    new Intl.DateTimeFormat(locale, { ...style, timeZone }).format(date);
+  const hour = Number(parts.hour);
+  const padded = (value: number | string = "") =>
+    String(value).padStart(2, "0");
+
+  return format.replace(DATE_TOKEN, (token, literal?: string) => {
+    switch (token) {
+      case "yyyy":
+        return parts.year ?? "";
+      case "yy":
+        return (parts.year ?? "").slice(-2);
+      case "MMMM":
+        return name({ month: "long" });
+      case "MMM":
+        return name({ month: "short" });
+      case "MM":
+        return padded(parts.month);
+      case "M":
+        return parts.month ?? "";
+      case "dd":
+        return padded(parts.day);
+      case "d":
+        return parts.day ?? "";
+      case "EEEE":
+        return name({ weekday: "long" });
+      case "EEE":
+        return name({ weekday: "short" });
+      case "HH":
+        return padded(hour);
+      case "H":
+        return String(hour);
+      case "hh":
+        return padded(hour % 12 || 12);
+      case "h":
+        return String(hour % 12 || 12);
+      case "mm":
+        return padded(parts.minute);
+      case "ss":
+        return padded(parts.second);
+      case "a":
+        return new Intl.DateTimeFormat(locale, {
+          hour: "numeric",
+          hour12: true,
+          timeZone,
+        }).formatToParts(date).find(({ type }) => type === "dayPeriod")
+          ?.value ?? "";
+      default:
+        return literal ?? token;
+    }
+  });
+}
+
+const IDENTIFIER = /^[a-z_A-Z$][a-z_A-Z0-9$]*$/;
+
+/**
+ * Print the value as a TypeScript literal. Nested values are placed on their
+ * own lines with trailing commas unless the `indent` is empty.
+ */
+function toLiteral(value: unknown, indent: string, current: string): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+
+  if (typeof value !== "object" || value === null) {
+    return JSON.stringify(value) ?? "undefined";
+  }
+
+  const entries = Array.isArray(value)
+    ? value.map((item) => toLiteral(item, indent, current + indent))
+    : Object.entries(value).map(([key, item]) => {
+      const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+      return `${name}: ${toLiteral(item, indent, current + indent)}`;
+    });
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"];
+
+  if (entries.length === 0) {
+    return `${open}${close}`;
+  }
+
+  if (!indent) {
+    const inner = entries.join(", ");
+    return Array.isArray(value) ? `[${inner}]` : `{ ${inner} }`;
+  }
+
+  const lines = entries.map((entry) => `${current}${indent}${entry},`);
+  return `${open}\n${lines.join("\n")}\n${current}${close}`;
+}
+
+function splitList(value: string): string[] {
+  return value ? value.split(",").map((item) => item.trim()) : [];
+}
+
+const TABLE_ALIGNMENTS = ["", "left", "center", "right"];
+
+/**
+ * Render an array of records as a GFM table with aligned columns.
+ *
+ * The columns default to the keys of the records in the order they first
+ * appear and can be dotted paths. Cells escape `|` and replace line breaks
+ * with `<br>`.
+ */
+function createTable(
+  value: unknown,
+  options: { columns: string[]; headers: string[]; align: string[] },
+): string {
+  if (
+    !Array.isArray(value) ||
+    !value.every((row) => typeof row === "object" && row !== null)
+  ) {
+    throw new CommentTemplateError(
+      "The pipe 'table' expects an array of objects",
+    );
+  }
+
+  const rows: Array<Record<string, unknown>> = value;
+  const columns = options.columns.length > 0
+    ? options.columns
+    : [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const align = columns.map((_, index) => options.align[index] ?? "");
+
+  for (const alignment of align) {
+    if (!TABLE_ALIGNMENTS.includes(alignment)) {
+      throw new CommentTemplateError(
+        `Invalid alignment '${alignment}', expected left, center or right`,
+      );
+    }
+  }
+
+  const cells = [
+    columns.map((column, index) =>
+      formatCell(options.headers[index] || column)
+    ),
+    ...rows.map((row) =>
+      columns.map((column) =>
+        formatCell(
+          lookupVariable(row as TemplateVariables<VariableFunction>, column),
+        )
+      )
+    ),
+  ];
+  const widths = columns.map((_, index) =>
+    Math.max(3, ...cells.map((row) => getDisplayWidth(row[index] ?? "")))
+  );
+  const line = (row: string[]) => {
+    const padded = row.map((cell, index) =>
+      pad(cell, widths[index] ?? 0, align[index])
+    );
+    return `| ${padded.join(" | ")} |`;
+  };
+  const delimiter = widths.map((width, index) => {
+    const alignment = align[index];
+    const start = alignment === "left" || alignment === "center" ? ":" : "-";
+    const end = alignment === "right" || alignment === "center" ? ":" : "-";
+    return `${start}${"-".repeat(width - 2)}${end}`;
+  });
+
+  const [header = [], ...body] = cells;
+  return [line(header), line(delimiter), ...body.map(line)].join("\n");
+}
+
+function formatCell(value: unknown): string {
+  const text = value === undefined || value === null
+    ? ""
+    : typeof value === "object"
+    ? JSON.stringify(value)
+    : String(value);
+
+  return text.replaceAll("|", "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Characters which take up two columns in a terminal or monospace font, i.e.
+ * East Asian wide and fullwidth characters.
+ */
+const WIDE_CHARACTER =
+  /^[\u1100-\u115f\u2e80-\u303e\u3041-\u33ff\u3400-\u4dbf\u4e00-\u9fff\ua000-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6\u{20000}-\u{3fffd}]/u;
+
+/**
+ * Emoji which are shown as images rather than text.
+ */
+const EMOJI = /\p{Emoji_Presentation}|\ufe0f/u;
+
+/**
+ * Get the number of columns a string takes up in a monospace font. Emoji and
+ * wide characters take up two columns while combining marks take up none.
+ */
+function getDisplayWidth(value: string): number {
+  const segmenter = new Intl.Segmenter(undefined, { granularity: "grapheme" });
+  let width = 0;
+
+  for (const { segment } of segmenter.segment(value)) {
+    if (EMOJI.test(segment) || WIDE_CHARACTER.test(segment)) {
+      width += 2;
+    } else if (!/^[\p{M}\p{Cf}]+$/u.test(segment)) {
+      width += 1;
+    }
+  }
+
+  return width;
+}
+
+function pad(cell: string, width: number, alignment = ""): string {
+  const space = width - getDisplayWidth(cell);
+
+  if (alignment === "right") {
+    return `${" ".repeat(space)}${cell}`;
+  }
+
+  if (alignment === "center") {
+    const start = Math.floor(space / 2);
+    return `${" ".repeat(start)}${cell}${" ".repeat(space - start)}`;
+  }
+
+  return `${cell}${" ".repeat(space)}`;
+}
+
+/**
+ * Transforms the value of a variable.
+ */
+export type Piper = (value: string) => string;
+
+/**
+ * Transforms the value of a variable which can be any value, e.g. the objects
+ * and arrays of a parsed JSON file. The result is passed to the next pipe and
+ * must be converted to a string by the last pipe.
+ */
+export type ValuePiper = (value: unknown) => unknown;
+
+/**
+ * A pipe is called with the arguments provided in the tag and returns the
+ * function which transforms the value.
+ */
+// deno-lint-ignore no-explicit-any
+export type PipeFunction<Args extends any[] = any[]> = (...args: Args) => Piper;
+
+/**
+ * Define a custom pipe which can be passed to the `pipes` of
+ * `commentTemplate`.
+ *
+ * The arguments of the pipe are checked to be values which can be provided in
+ * a tag: `string`, `number`, `boolean` and `null`. Arguments which aren't
+ * provided in the tag are `undefined`.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import {
+ *   commentTemplate,
+ *   definePipe,
+ * } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const semverMajor = definePipe((prefix: string = "") => (value) => {
+ *   return `${prefix}${value.split(".")[0]}`;
+ * });
+ *
+ * const transformed = commentTemplate({
+ *   content: `<!-- ={version|semverMajor:"v"} --><!-- {/version} -->`,
+ *   variables: { version: "2.1.0" },
+ *   pipes: { semverMajor },
+ * });
+ *
+ * assertEquals(transformed, `<!-- ={version|semverMajor:"v"} -->v2<!-- {/version} -->`);
+ * ```
+ */
+export function definePipe<Args extends Array<PipeArgument | undefined>>(
+  pipe: PipeFunction<Args>,
+): PipeFunction<Args> {
+  return pipe;
+}
+
+/**
+ * A value pipe is called with the arguments provided in the tag and returns
+ * the function which transforms any value.
+ */
+// deno-lint-ignore no-explicit-any
+export type ValuePipeFunction<Args extends any[] = any[]> = (
+  ...args: Args
+) => ValuePiper;
+
+/**
+ * A pipe which receives the value of a variable as it is, created with
+ * `defineValuePipe`. It is an object rather than a function so that it can't
+ * be mistaken for a `PipeFunction`, which only receives strings.
+ */
+// deno-lint-ignore no-explicit-any
+export interface ValuePipe<Args extends any[] = any[]> {
+  readonly value: ValuePipeFunction<Args>;
+}
+
+/**
+ * Define a custom pipe which receives the value of a variable as it is rather
+ * than converted to a string, e.g. an object or array, or the value returned
+ * by the previous value pipe.
+ *
+ * Strings, numbers and booleans returned by the last pipe are used as the
+ * replacement. Other values must be converted by a later pipe like `json`.
+ *
+ * The pipe can be passed to the `pipes` alongside the other custom pipes.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import {
+ *   commentTemplate,
+ *   defineValuePipe,
+ * } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const pick = defineValuePipe((keys: string = "") => (value) => {
+ *   const record = value as Record<string, unknown>;
+ *   return Object.fromEntries(keys.split(",").map((key) => [key, record[key]]));
+ * });
+ *
+ * const transformed = commentTemplate({
+ *   content: `<!-- ={pkg|pick:"name"|json:0} --><!-- {/pkg} -->`,
+ *   variables: { pkg: { name: "comment_templates", private: true } },
+ *   pipes: { pick },
+ * });
+ *
+ * assertEquals(
+ *   transformed,
+ *   `<!-- ={pkg|pick:"name"|json:0} -->{"name":"comment_templates"}<!-- {/pkg} -->`,
+ * );
+ * ```
+ */
+export function defineValuePipe<
+  Args extends Array<PipeArgument | undefined>,
+>(pipe: ValuePipeFunction<Args>): ValuePipe<Args> {
+  return { value: pipe };
+}
+
+/**
+ * Custom pipes which are available in addition to the built in pipes.
+ */
+export interface CommentTemplatePipes {
+  [name: string]: PipeFunction | ValuePipe;
+}
+
+/**
+ * Create a pipe function from the parsed pipes of a block. The variable is
+ * converted to a string before the first pipe which only accepts strings, and
+ * after the last pipe.
+ *
+ * Errors thrown by a pipe are wrapped in a `CommentTemplateError` which names
+ * the pipe that failed.
+ */
+function createPiper(
+  pipeNodes: readonly TemplatePipeNode[],
+  variable: string,
+  customPipes: CommentTemplatePipes = {},
+): (value: unknown) => string {
+  const fns: Array<(value: unknown) => unknown> = [];
+  const available: CommentTemplatePipes = {
+    ...pipes,
+    ...valuePipes,
+    ...customPipes,
+  };
+
+  for (const { name, args } of pipeNodes) {
+    const pipe = Object.hasOwn(available, name) ? available[name] : undefined;
+
+    if (!pipe) {
+      throw new CommentTemplateError(`Invalid pipe name: ${name}`);
+    }
+
+    // Value pipes accept any value while the others are only called with
+    // strings.
+    const piper: ValuePiper = typeof pipe === "function"
+      ? withPipeError(name, () => {
+        const fn = pipe(...args);
+        return (value: unknown) => fn(toText(variable, value));
+      })
+      : withPipeError(name, () => pipe.value(...args));
+    fns.push((value) => withPipeError(name, () => piper(value)));
+  }
+
+  return (value) =>
+    toText(variable, fns.reduce((piped, fn) => fn(piped), value));
+}
+
+/**
+ * Convert the value of a variable to the string used in the content. Numbers
+ * and booleans are converted while objects and arrays must be transformed by
+ * a pipe like `table` first.
+ */
+function toText(name: string, value: unknown): string {
+  if (typeof value === "string") {
+    return value;
+  }
+
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+
+  throw new CommentTemplateError(
+    `The variable '${name}' is an object and can't be used as a value`,
+  );
+}
+
+function withPipeError<Value>(name: string, fn: () => Value): Value {
+  try {
+    return fn();
+  } catch (error) {
+    if (CommentTemplateError.is(error)) {
+      throw error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    throw new CommentTemplateError(`The pipe '${name}' failed: ${message}`, {
+      cause: error,
+    });
+  }
+}
+
+/**
+ * The delimiters which wrap the content of a comment. These can be passed to
+ * `patterns` to support comment syntaxes which aren't built in.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { commentTemplate } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const transformed = commentTemplate({
+ *   content: "-- ={table}\nSELECT * FROM old;\n-- {/table}",
+ *   variables: { table: "SELECT * FROM new;" },
+ *   patterns: [{ open: "--" }],
+ * });
+ *
+ * assertEquals(transformed, "-- ={table}\nSELECT * FROM new;\n-- {/table}");
+ * ```
+ */
+export interface CommentDelimiters {
+  /**
+   * The characters which start the comment.
+   */
+  open: string;
+
+  /**
+   * The characters which end the comment. When omitted the comment ends at
+   * the end of the line.
+   */
+  close?: string;
+}
+
+const PATTERNS = {
+  /**
+   * Match `<!-- ={name} --><!-- {/name} -->`
+   */
+  xml: { open: "<!--", close: "-->" },
+  /**
+   * Match `/* ={name} *+//* {/name} *+/`
+   */
+  slash: { open: "/*", close: "*/" },
+  /**
+   * Match `# ={name}` and `# {/name}` on their own lines. The content is the
+   * lines between the tags.
+   *
+   * This works with YAML, TOML, shell scripts, Python and Dockerfiles.
+   */
+  hash: { open: "#" },
+  /**
+   * Match `// ={name}` and `// {/name}` on their own lines. The content is the
+   * lines between the tags.
+   */
+  line: { open: "//" },
+  /**
+   * Match `{/* ={name} *+/}{/* {/name} *+/}` within the children of JSX, TSX and
+   * MDX elements.
+   */
+  jsx: { open: "{/*", close: "*/}" },
+};
+
+type Pattern = keyof typeof PATTERNS;
+
+/**
+ * A built in comment pattern name or the delimiters for a custom comment
+ * syntax.
+ */
+export type CommentPattern = Pattern | CommentDelimiters;
+
+/**
+ * Get the delimiters for the comment pattern.
+ */
+function getDelimiters(pattern: CommentPattern): CommentDelimiters {
+  if (typeof pattern === "string") {
+    const delimiters: CommentDelimiters | undefined = PATTERNS[pattern];
+
+    if (!delimiters) {
+      throw new CommentTemplateError(`Invalid comment pattern: ${pattern}`);
+    }
+
+    return delimiters;
+  }
+
+  if (!pattern.open.trim() || pattern.close?.trim() === "") {
+    throw new CommentTemplateError(
+      `Invalid comment delimiters: ${JSON.stringify(pattern)}`,
+    );
+  }
+
+  return pattern;
+}
+
+/**
+ * Line comments have no closing delimiter and end with the line.
+ */
+function isLineComment(pattern: CommentPattern): boolean {
+  return getDelimiters(pattern).close === undefined;
+}
+
+/**
+ * A range within the parsed content. The `end` is exclusive.
+ */
+export interface TemplateRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * A pipe applied to the variable of a block, e.g. `|prefix:"@"`.
+ */
+export interface TemplatePipeNode {
+  /**
+   * The name of the pipe.
+   */
+  name: string;
+
+  /**
+   * The arguments provided to the pipe in the order they were declared.
+   */
+  args: PipeArgument[];
+}
+
+/**
+ * The values which can be passed as arguments to a pipe.
+ */
+export type PipeArgument = string | number | boolean | null | RegExp;
+
+/**
+ * A block wrapped by an opening and closing comment tag.
+ *
+ * - `variable` blocks are opened with `={name}` and their content is replaced
+ *   by `commentTemplate`.
+ * - `snippet` blocks are opened with `@{name}` and their content is read by
+ *   `extractTemplateValues`.
+ * - `condition` blocks are opened with `?{name}` or `?{!name}` and their
+ *   content is shown or hidden by `commentTemplate`.
+ * - `repeat` blocks are opened with `*{name|template:"- {title}"}` and their
+ *   content is replaced by rendering the template for each item of an array.
+ */
+export interface TemplateBlockNode {
+  kind: "variable" | "snippet" | "condition" | "repeat";
+
+  /**
+   * The comment pattern used by the tags of this block.
+   */
+  pattern: CommentPattern;
+
+  /**
+   * The name referenced in the opening and closing tags.
+   */
+  name: string;
+
+  /**
+   * The path of the file, and optionally the `#region`, from an
+   * `={include:"./path#region"}` tag. The name of these blocks is always
+   * `include`.
+   */
+  include?: string;
+
+  /**
+   * True when the content of a condition block is shown for falsy values, as
+   * declared with `?{!name}`. Only set for condition blocks.
+   */
+  negate?: boolean;
+
+  /**
+   * The pipes declared in the opening tag. Always empty for snippets and
+   * conditions.
+   */
+  pipes: TemplatePipeNode[];
+
+  /**
+   * The current content between the opening and closing tags.
+   */
+  value: string;
+
+  /**
+   * The range of the opening comment tag.
+   */
+  open: TemplateRange;
+
+  /**
+   * The range of the closing comment tag.
+   */
+  close: TemplateRange;
+
+  /**
+   * The blocks nested within the content of this block.
+   */
+  children: TemplateBlockNode[];
+}
+
+/**
+ * The result of parsing content with `parseTemplate`.
+ */
+export interface TemplateAst {
+  /**
+   * The content that was parsed. All ranges are relative to this string.
+   */
+  content: string;
+
+  /**
+   * The top level blocks in the order they appear in the content.
+   */
+  blocks: TemplateBlockNode[];
+}
+
+export interface ParseTemplateProps {
+  /**
+   * The comment patterns to search for in the content.
+   *
+   * @default ['slash', 'xml']
+   */
+  patterns?: CommentPattern[];
+}
+
+/**
+ * Parse the comment tags within the content into a tree of blocks.
+ *
+ * The content is scanned once for each comment pattern. Every opening tag is
+ * paired with the nearest following closing tag of the same name, so the same
+ * variable can be used multiple times within the content. Tags which are
+ * never closed are ignored.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { parseTemplate } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const { blocks } = parseTemplate(
+ *   `<!-- ={name|code} -->a<!-- {/name} --> and <!-- ={name} -->b<!-- {/name} -->`,
+ * );
+ *
+ * assertEquals(blocks.map(({ name, value }) => [name, value]), [
+ *   ["name", "a"],
+ *   ["name", "b"],
+ * ]);
+ * ```
+ */
+export function parseTemplate(
+  content: string,
+  props: ParseTemplateProps = {},
+): TemplateAst {
+  const { patterns = ["slash", "xml"] } = props;
+  const tags: TagToken[] = [];
+
+  for (const pattern of patterns) {
+    tags.push(...scanTags(content, pattern));
+  }
+
+  tags.sort((a, z) => a.range.start - z.range.start);
+
+  return { content, blocks: createBlocks(content, tags) };
+}
+
+interface OpenTagToken {
+  type: "open";
+  kind: TemplateBlockNode["kind"];
+  name: string;
+  include?: string;
+  negate?: boolean;
+  pipes: TemplatePipeNode[];
+  pattern: CommentPattern;
+  range: TemplateRange;
+}
+
+interface CloseTagToken {
+  type: "close";
+  name: string;
+  pattern: CommentPattern;
+  range: TemplateRange;
+}
+
+type TagToken = OpenTagToken | CloseTagToken;
+
+/**
+ * Find every comment tag for the provided pattern.
+ *
+ * Comments which don't contain a tag are skipped, but any comment starting
+ * within them is still checked, e.g. `<!-- text <!-- ={name} -->`.
+ */
+function scanTags(content: string, pattern: CommentPattern): TagToken[] {
+  const { open, close } = getDelimiters(pattern);
+  const tokens: TagToken[] = [];
+  let index = content.indexOf(open);
+  let closeIndex = -1;
+
+  while (index !== -1) {
+    const bodyStart = index + open.length;
+
+    if (closeIndex < bodyStart) {
+      closeIndex = close
+        ? content.indexOf(close, bodyStart)
+        : findLineEnd(content, bodyStart);
+    }
+
+    if (closeIndex === -1) {
+      break;
+    }
+
+    const end = closeIndex + (close?.length ?? 0);
+    const tag = (close || isLineStart(content, index)) &&
+      parseTag(content, bodyStart, closeIndex, { start: index, end });
+
+    if (!tag) {
+      index = content.indexOf(open, bodyStart);
+      continue;
+    }
+
+    tokens.push({ ...tag, pattern, range: { start: index, end } });
+    index = content.indexOf(open, end);
+  }
+
+  return tokens;
+}
+
+/**
+ * Get the index of the end of the line which contains the `index`. This is
+ * the end of the content for the last line.
+ */
+function findLineEnd(content: string, index: number): number {
+  const lineEnd = content.indexOf("\n", index);
+  return lineEnd === -1 ? content.length : lineEnd;
+}
+
+/**
+ * Check that only whitespace precedes the `index` on its line.
+ */
+function isLineStart(content: string, index: number): boolean {
+  for (let ii = index - 1; ii >= 0; ii--) {
+    const char = content.charAt(ii);
+
+    if (char === "\n") {
+      return true;
+    }
+
+    if (!WHITESPACE.test(char)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+type ParsedTag =
+  | Omit<OpenTagToken, "pattern" | "range">
+  | Omit<CloseTagToken, "pattern" | "range">;
+
+const NAME_START = /[a-z_A-Z$]/;
+const NAME_CHARACTER = /[a-z_A-Z0-9$\.]/;
+const PIPE_NAME_CHARACTER = /[a-z_A-Z0-9$]/;
+const NUMBER_CHARACTER = /[\.0-9_]/;
+const REGEX_FLAG = /[dgimsuvy]/;
+const ARGUMENT_END = /[,:|}]/;
+const ESCAPES: Record<string, string> = { n: "\n", r: "\r", t: "\t", 0: "\0" };
+const WHITESPACE = /\s/;
+const PRIMITIVES = { null: null, true: true, false: false };
+const TAG_KINDS = {
+  "=": "variable",
+  "@": "snippet",
+  "?": "condition",
+  "*": "repeat",
+} as const;
+const INCLUDE = "include";
+
+/**
+ * Parse the body of a comment (the content between the comment delimiters)
+ * into a tag.
+ *
+ * Returns `undefined` when the body isn't a valid tag.
+ *
+ * - `={name|pipe:arg}` opens a variable block.
+ * - `={include:"./path#region"|pipe:arg}` opens a variable block which is
+ *   replaced with the content of another file.
+ * - `@{name}` opens a snippet block.
+ * - `?{name}` and `?{!name}` open a condition block.
+ * - `*{name|template:"- {title}"}` opens a repeat block.
+ * - `{/name}` closes a block.
+ *
+ * Pipe arguments are separated by `,` or `:` and can be `null`, `true`,
+ * `false`, numbers, strings in double or single quotes with backslash escapes
+ * and regex literals like `/v(\d+)/g`. A `CommentTemplateError` with the
+ * offset within the tag is thrown for invalid arguments.
+ */
+function parseTag(
+  content: string,
+  start: number,
+  end: number,
+  range: TemplateRange,
+): ParsedTag | undefined {
+  let index = start;
+
+  const fail = (message: string, at = index): never => {
+    const tag = content.slice(range.start, range.end);
+
+    throw new CommentTemplateError(
+      `${message} at offset ${at - range.start} of the tag '${tag}'`,
+    );
+  };
+
+  const skipWhitespace = () => {
+    while (index < end && WHITESPACE.test(content.charAt(index))) {
+      index++;
+    }
+  };
+
+  const readWhile = (regex: RegExp) => {
+    const from = index;
+
+    while (index < end && regex.test(content.charAt(index))) {
+      index++;
+    }
+
+    return content.slice(from, index);
+  };
+
+  const readName = () => {
+    return NAME_START.test(content.charAt(index))
+      ? readWhile(NAME_CHARACTER)
+      : "";
+  };
+
+  const readString = (quote: string) => {
+    const from = index++;
+    let value = "";
+
+    while (index < end && content.charAt(index) !== quote) {
+      const char = content.charAt(index++);
+
+      if (char !== "\\") {
+        value += char;
+        continue;
+      }
+
+      const escaped = content.charAt(index++);
+
+      if (escaped === "u") {
+        value += readUnicodeEscape();
+      } else {
+        value += ESCAPES[escaped] ?? escaped;
+      }
+    }
+
+    if (index >= end) {
+      fail("Unterminated string", from);
+    }
+
+    index++;
+    return value;
+  };
+
+  const readUnicodeEscape = () => {
+    const from = index - 2;
+    const braced = content.charAt(index) === "{";
+    const hex = braced
+      ? content.slice(index + 1, content.indexOf("}", index))
+      : content.slice(index, index + 4);
+    const codePoint = /^[0-9a-fA-F]+$/.test(hex) && (braced || hex.length === 4)
+      ? Number.parseInt(hex, 16)
+      : NaN;
+
+    if (!(codePoint <= 0x10ffff)) {
+      fail("Invalid unicode escape", from);
+    }
+
+    index += braced ? hex.length + 2 : 4;
+    return String.fromCodePoint(codePoint);
+  };
+
+  const readRegex = () => {
+    const from = index++;
+    let inClass = false;
+
+    while (index < end) {
+      const char = content.charAt(index);
+
+      if (char === "\\") {
+        index += 2;
+        continue;
+      }
+
+      if (char === "/" && !inClass) {
+        break;
+      }
+
+      inClass = char === "[" ? true : char === "]" ? false : inClass;
+      index++;
+    }
+
+    if (index >= end) {
+      fail("Unterminated regular expression", from);
+    }
+
+    const source = content.slice(from + 1, index++);
+    const flags = readWhile(REGEX_FLAG);
+
+    try {
+      return new RegExp(source, flags);
+    } catch (error) {
+      return fail(
+        `Invalid regular expression: ${(error as Error).message}`,
+        from,
+      );
+    }
+  };
+
+  const readNumber = () => {
+    const from = index;
+    const sign = content.charAt(index) === "-" ? readWhile(/-/) : "";
+    const number = Number(
+      `${sign}${readWhile(NUMBER_CHARACTER).replaceAll("_", "")}`,
+    );
+
+    if (sign.length > 1 || Number.isNaN(number)) {
+      fail("Invalid number", from);
+    }
+
+    return number;
+  };
+
+  const readArgument = (): PipeArgument | undefined => {
+    const char = content.charAt(index);
+
+    // An empty argument is allowed, e.g. `|code:`.
+    if (char === "|" || char === "}") {
+      return;
+    }
+
+    for (const [name, value] of entries(PRIMITIVES)) {
+      if (content.startsWith(name, index)) {
+        index += name.length;
+        return value;
+      }
+    }
+
+    if (char === '"' || char === "'") {
+      return readString(char);
+    }
+
+    if (char === "/") {
+      return readRegex();
+    }
+
+    if (char === "-" || NUMBER_CHARACTER.test(char)) {
+      return readNumber();
+    }
+
+    return fail(
+      "Expected a string, number, regular expression, boolean or null",
+    );
+  };
+
+  const readArguments = () => {
+    const args: PipeArgument[] = [];
+
+    while (content.charAt(index) === ":" || content.charAt(index) === ",") {
+      index++;
+
+      if (content.charAt(index - 1) === ",") {
+        skipWhitespace();
+      }
+
+      const arg = readArgument();
+
+      if (arg !== undefined) {
+        args.push(arg);
+      }
+
+      // Whitespace is allowed before the next argument, pipe or the end of
+      // the tag, e.g. `|prefix:'a' , 'b'`.
+      skipWhitespace();
+
+      if (index < end && !ARGUMENT_END.test(content.charAt(index))) {
+        fail("Expected ',', '|' or '}' after the argument");
+      }
+    }
+
+    return args;
+  };
+
+  skipWhitespace();
+  const marker = content.charAt(index);
+  const kind = Object.hasOwn(TAG_KINDS, marker)
+    ? TAG_KINDS[marker as keyof typeof TAG_KINDS]
+    : undefined;
+
+  if (kind) {
+    index++;
+  } else if (marker !== "{" || content.charAt(index + 1) !== "/") {
+    return;
+  }
+
+  if (content.charAt(index) !== "{") {
+    return;
+  }
+
+  index += kind ? 1 : 2;
+  const negate = kind === "condition" && content.charAt(index) === "!";
+
+  if (negate) {
+    index++;
+  }
+
+  const name = readName();
+
+  if (!name) {
+    return;
+  }
+
+  let include: string | undefined;
+
+  if (
+    kind === "variable" && name === INCLUDE && content.charAt(index) === ":"
+  ) {
+    index++;
+    const arg = readArgument();
+
+    if (typeof arg !== "string" || !arg) {
+      return;
+    }
+
+    include = arg;
+  }
+
+  const pipes: TemplatePipeNode[] = [];
+
+  while (
+    (kind === "variable" || kind === "repeat") && content.charAt(index) === "|"
+  ) {
+    index++;
+    const pipeName = readWhile(PIPE_NAME_CHARACTER);
+
+    if (!pipeName) {
+      return;
+    }
+
+    const args = readArguments();
+
+    pipes.push({ name: pipeName, args });
+  }
+
+  if (content.charAt(index) !== "}") {
+    return;
+  }
+
+  index++;
+  skipWhitespace();
+
+  if (index !== end) {
+    return;
+  }
+
+  if (!kind) {
+    return { type: "close", name };
+  }
+
+  if (kind === "condition") {
+    return { type: "open", kind, name, negate, pipes };
+  }
+
+  return include === undefined
+    ? { type: "open", kind, name, pipes }
+    : { type: "open", kind, name, include, pipes };
+}
+
+/**
+ * Line comment tags take up their whole line. The line break after the
+ * opening tag and the line break and indentation before the closing tag are
+ * added to the tags so that the value of the block is the lines between them.
+ */
+function expandLineTags(
+  content: string,
+  open: TemplateRange,
+  close: TemplateRange,
+): [open: TemplateRange, close: TemplateRange] {
+  const openEnd = content.charAt(open.end) === "\n" ? open.end + 1 : open.end;
+  let closeStart = close.start;
+
+  while (
+    closeStart > openEnd && isIndentation(content.charAt(closeStart - 1))
+  ) {
+    closeStart--;
+  }
+
+  if (closeStart > openEnd && content.charAt(closeStart - 1) === "\n") {
+    closeStart--;
+
+    if (closeStart > openEnd && content.charAt(closeStart - 1) === "\r") {
+      closeStart--;
+    }
+  }
+
+  return [
+    { start: open.start, end: openEnd },
+    { start: closeStart, end: close.end },
+  ];
+}
+
+function isIndentation(char: string): boolean {
+  return char !== "\n" && char !== "\r" && WHITESPACE.test(char);
+}
+
+/**
+ * Pair the opening and closing tags into a tree of blocks.
+ */
+function createBlocks(
+  content: string,
+  tags: readonly TagToken[],
+): TemplateBlockNode[] {
+  const blocks: TemplateBlockNode[] = [];
+  const stack: Array<{ tag: OpenTagToken; children: TemplateBlockNode[] }> = [];
+  let lastEnd = 0;
+
+  // Move the children of an unclosed tag to its parent.
+  const discard = () => {
+    const frame = stack.pop();
+    (stack.at(-1)?.children ?? blocks).push(...(frame?.children ?? []));
+  };
+
+  for (const tag of tags) {
+    // Ignore tags which overlap with another comment pattern.
+    if (tag.range.start < lastEnd) {
+      continue;
+    }
+
+    lastEnd = tag.range.end;
+
+    if (tag.type === "open") {
+      stack.push({ tag, children: [] });
+      continue;
+    }
+
+    const index = stack.findLastIndex((frame) =>
+      frame.tag.name === tag.name && frame.tag.pattern === tag.pattern
+    );
+
+    if (index === -1) {
+      continue;
+    }
+
+    while (stack.length - 1 > index) {
+      discard();
+    }
+
+    const frame = stack.pop();
+
+    if (!frame) {
+      continue;
+    }
+
+    const { kind, name, include, negate, pipes, pattern } = frame.tag;
+    const [open, close] = isLineComment(pattern)
+      ? expandLineTags(content, frame.tag.range, tag.range)
+      : [frame.tag.range, tag.range];
+
+    (stack.at(-1)?.children ?? blocks).push({
+      kind,
+      pattern,
+      name,
+      ...include === undefined ? {} : { include },
+      ...negate === undefined ? {} : { negate },
+      pipes,
+      value: content.slice(open.end, close.start),
+      open,
+      close,
+      children: frame.children,
+    });
+  }
+
+  while (stack.length > 0) {
+    discard();
+  }
+
+  return blocks;
+}
+
+/**
+ * The error that is thrown when a variable in the template doesn't exist.
+ */
+export class CommentTemplateError extends Error {
+  /**
+   * Predicate to check that the value provided is a `CommentTemplateError`.
+   *
+   * Useful for verifying within a `catch` block.
+   *
+   * ```ts
+   * import { commentTemplate, CommentTemplateError } from './mod.ts';
+   * const variables = { exampleValue: 'hello!' };
+   *
+   * try {
+   *   const content = await Deno.readTextFile(new URL('readme.md', import.meta.url));
+   *   commentTemplate({ content, variables, throwIfMissingVariable: true });
+   * } catch (error) {
+   *   if (CommentTemplateError.is(error)) {
+   *    // this is an error!
+   *   }
+   * }
+   * ```
+   */
+  static is(value: unknown): value is CommentTemplateError {
+    return value instanceof CommentTemplateError;
+  }
+
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+  }
+}
+
+/**
+ * The error that is thrown by `checkTemplate` when `throwIfStale` is `true`
+ * and blocks are out of date.
+ */
+export class StaleTemplateError extends CommentTemplateError {
+  /**
+   * Predicate to check that the value provided is a `StaleTemplateError`.
+   */
+  static override is(value: unknown): value is StaleTemplateError {
+    return value instanceof StaleTemplateError;
+  }
+
+  /**
+   * The blocks which are out of date.
+   */
+  readonly blocks: StaleBlock[];
+
+  /**
+   * The path of the file which was checked, if it was provided.
+   */
+  readonly path: string | undefined;
+
+  constructor(blocks: StaleBlock[], path?: string) {
+    const location = path ? `${path}:` : "line ";
+    const lines = blocks.map(({ name, line }) =>
+      `  ${location}${line} ${name}`
+    );
+    super(
+      `${blocks.length} templated block${
+        blocks.length === 1 ? " is" : "s are"
+      } out of date:\n${lines.join("\n")}`,
+    );
+    this.blocks = blocks;
+    this.path = path;
+  }
+}
+
+type CommentTemplateVariableFunction = (
+  currentValue: string | undefined,
+) => string;
+
+type CommentTemplateAsyncVariableFunction = (
+  currentValue: string | undefined,
+) => string | Promise<string>;
+
+type VariableFunction = (currentValue: string | undefined) => unknown;
+
+type TemplateVariable<Fn extends VariableFunction> =
+  | string
+  | number
+  | boolean
+  | Date
+  | null
+  | undefined
+  | Fn
+  | TemplateVariables<Fn>
+  | readonly TemplateVariable<Fn>[];
+
+interface TemplateVariables<Fn extends VariableFunction> {
+  [name: string]: TemplateVariable<Fn>;
+}
+
+type CommentTemplateVariables = TemplateVariables<
+  CommentTemplateVariableFunction
+>;
+
+type CommentTemplateAsyncVariables = TemplateVariables<
+  CommentTemplateAsyncVariableFunction
+>;
+
+/**
+ * Get the key of the top level variable which is used for the name in a tag.
+ */
+function getVariableKey(
+  variables: TemplateVariables<VariableFunction>,
+  name: string,
+): string {
+  return Object.hasOwn(variables, name) ? name : name.split(".")[0] ?? name;
+}
+
+/**
+ * Look up the raw variable for a name, which can be a dotted path within the
+ * nested objects and arrays.
+ */
+function lookupVariable<Fn extends VariableFunction>(
+  variables: TemplateVariable<Fn>,
+  name: string,
+): TemplateVariable<Fn> {
+  let variable = variables;
+
+  if (
+    typeof variable === "object" && variable !== null &&
+    Object.hasOwn(variable, name)
+  ) {
+    return (variable as TemplateVariables<Fn>)[name];
+  }
+
+  for (const key of name.split(".")) {
+    if (
+      typeof variable !== "object" || variable === null ||
+      !Object.hasOwn(variable, key)
+    ) {
+      return;
+    }
+
+    variable = Array.isArray(variable)
+      ? variable[Number(key)]
+      : (variable as TemplateVariables<Fn>)[key];
+  }
+
+  return variable;
+}
+
+/**
+ * Get the variable for the name used in a tag. A dotted name like
+ * `pkg.repository.url` is looked up within the nested objects and arrays of
+ * the variables when there is no variable with the exact name.
+ *
+ * Returns `undefined` when the variable doesn't exist or is `null`.
+ */
+function resolveVariable<Fn extends VariableFunction>(
+  variables: TemplateVariables<Fn>,
+  name: string,
+): TemplateVariable<Fn> {
+  return lookupVariable(variables, name) ?? undefined;
+}
+
+/**
+ * These are the props that are passed into the `commentTemplate` function.
+ */
+export interface CommentTemplateProps {
+  /**
+   * This is the content to transform and is required.
+   *
+   * ### Examples
+   *
    * The `content` can be pulled in from a file and then written back to the
    * same file. All non-related content will be preserved.
    *
@@ -456,113 +3263,482 @@ export interface CommentTemplateProps {
    * const transformedContent = commentTemplate(props);
    * ```
    */
-  content: string;
+  content: string;
+
+  /**
+   * Pass variables to the template which replace the content.
+   *
+   * If a function is provided it is called with the current value, which can be
+   * `undefined`. Numbers and booleans are converted to strings.
+   *
+   * Variables can be nested within objects and arrays, e.g. a parsed
+   * `package.json`, and referenced with a dotted path like `={pkg.version}`,
+   * `={pkg.repository.url}` or `={pkg.keywords.0}`. A variable with the exact
+   * dotted name takes precedence over the nested lookup.
+   *
+   * Arrays can be rendered with a repeat block like
+   * `*{contributors|template:"- {name}"}`, which renders the template for each
+   * item, or with a pipe which accepts them like `={options|table}`.
+   *
+   * ### Examples
+   *
+   * Here is an example of creating variables with both a function and a string.
+   *
+   * ```ts
+   * import {
+   *   type CommentTemplateProps
+   * } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   *
+   * const props: CommentTemplateProps = {
+   *   content: await Deno.readTextFile(new URL('tests/fixtures/sample.md', import.meta.url)),
+   *   variables: {
+   *     simple: 'a simple string',
+   *     complex: value => value ? `${value} is complex` : 'seems undefined',
+   *     nested: { pkg: { version: '1.0.0', keywords: ['deno'] } },
+   *   },
+   * }
+   * ```
+   */
+  variables: CommentTemplateVariables;
+
+  /**
+   * Throw an error if a variable is not found. This can be useful for making
+   * sure out of date comments don't clutter up your markdown and Typescript
+   * files.
+   *
+   * @default false
+   *
+   * ### Examples
+   *
+   * This example shows how an error is thrown if a variable is not found when
+   * the `throwIfMissingVariable` is set to `true`.
+   *
+   * ```ts
+   * import { assertThrows } from 'https://deno.land/x/comment_templates@0.0.0/tests/deps.ts'
+   * import {
+   *   commentTemplate,
+   *   type CommentTemplateProps
+   * } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   *
+   * const props: CommentTemplateProps = {
+   *   content: `<!-- ={nonExistent} --><!-- {/nonExistent} -->`,
+   *   variables: { name: 'Deno' },
+   *   throwIfMissingVariable: true,
+   * };
+   *
+   * assertThrows(() => commentTemplate(props)); // => true!
+   * ```
+   */
+  throwIfMissingVariable?: boolean;
+
+  /**
+   * The comment patterns to match for the provided content. You can limit the
+   * kind of comments that this function will transform.
+   *
+   * - `html` will be able to transform markdown files with comments.
+   * - `slash` will be able to transform languages with `slash star` comments
+   *   like JavaScript and TypeScript.
+   * - `hash` will be able to transform files with `#` line comments like YAML,
+   *   TOML, shell scripts, Python and Dockerfiles. The tags must be on their
+   *   own lines and the content between them is replaced.
+   *
+   * ```yaml
+   * # ={version|prefix:"version: "}
+   * version: 1.0.0
+   * # {/version}
+   * ```
+   *
+   * - `line` will be able to transform languages with `//` line comments. Like
+   *   `hash` the tags must be on their own lines.
+   * - `jsx` will be able to transform the children of JSX elements and MDX
+   *   files which use `{/* *+/}` comments. It takes precedence over `slash`
+   *   when both are used.
+   *
+   * Other comment syntaxes are supported by passing the delimiters which open
+   * and close the comment. When `close` is omitted the comment ends with the
+   * line, and like `hash` the tags must be on their own lines.
+   *
+   * - `{ open: "--" }` for SQL and Lua line comments.
+   * - `{ open: "--[[", close: "]]" }` for Lua block comments.
+   * - `{ open: "{-", close: "-}" }` for Haskell block comments.
+   * - `{ open: ";" }` for INI files and `{ open: ";;" }` for Lisp.
+   *
+   * @default ['html', 'slash']
+   *
+   * ### Examples
+   *
+   * ```ts
+   * import { type CommentTemplateProps } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   *
+   * const props: CommentTemplateProps = {
+   *   content: `<!-- ={nonExistent} --><!-- {/nonExistent} -->`,
+   *   variables: { name: 'Deno' },
+   *   patterns: ['xml'], // limit to markdown files
+   * };
+   * ```
+   */
+  patterns?: CommentPattern[];
+
+  /**
+   * Return true when you want to exclude a match from being transformed.
+   *
+   * ### Examples
+   *
+   * The following example excludes a match based on the provided name.
+   *
+   * ```ts
+   * import { CommentTemplateProps } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   *
+   * const props: CommentTemplateProps = {
+   *  content: '<!-- ={excludedName} --><!-- {/excludedName} -->',
+   *  variables: {},
+   *  exclude: ({ name }) => name.startsWith('excluded')
+   * }
+   * ```
+   */
+  exclude?: ExcludeFunction;
+
+  /**
+   * Custom pipes which can be used in the tags alongside the built in pipes.
+   * A custom pipe with the same name as a built in pipe replaces it.
+   *
+   * Use `definePipe` to type the arguments of the pipe. When a pipe throws, the
+   * error is rethrown as a `CommentTemplateError` which names the failing
+   * pipe.
+   *
+   * ### Examples
+   *
+   * ```ts
+   * import {
+   *   type CommentTemplateProps,
+   *   definePipe,
+   * } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   *
+   * const props: CommentTemplateProps = {
+   *   content: '<!-- ={name|npmBadge} --><!-- {/name} -->',
+   *   variables: { name: 'comment_templates' },
+   *   pipes: {
+   *     npmBadge: definePipe(() => (name) =>
+   *       `[![npm](https://img.shields.io/npm/v/${name})](https://npm.im/${name})`
+   *     ),
+   *   },
+   * };
+   * ```
+   */
+  pipes?: CommentTemplatePipes;
 
   /**
-   * Pass variables to the template which replace the content.
+   * Indent multiline replacements to match the line of the opening tag. The
+   * indentation includes comment gutters, such as the `*` at the start of each
+   * line of a JSDoc comment, so values can be inserted into nested lists, YAML
+   * blocks and doc comments without `prefix`, `indent` and `suffix` pipes.
    *
-   * If a function is provided it is called with the current value, which can be
-   * `undefined`. Variables must be a flat object structure and cannot contain nested
-   * objects.
+   * A multiline value is moved onto its own lines with the closing tag on the
+   * line after it. Use `|autoindent` or `|autoindent:false` in a tag to
+   * override this for a single block.
    *
-   * There is currently no support for nesting.
+   * @default false
    *
    * ### Examples
    *
-   * Here is an example of creating variables with both a function and a string.
-   *
    * ```ts
    * import {
-   *   type CommentTemplateProps
+   *   commentTemplate,
    * } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   * import { assertEquals } from './tests/deps.ts';
    *
-   * const props: CommentTemplateProps = {
-   *   content: await Deno.readTextFile(new URL('tests/fixtures/sample.md', import.meta.url)),
-   *   variables: {
-   *     simple: 'a simple string',
-   *     complex: value => value ? `${value} is complex` : 'seems undefined'
-   *   },
-   * }
+   * const transformed = commentTemplate({
+   *   content: '/**\n * <!-- ={usage} --><!-- {/usage} -->\n *\/',
+   *   variables: { usage: 'First line.\n\nSecond line.' },
+   *   autoindent: true,
+   * });
+   *
+   * assertEquals(
+   *   transformed,
+   *   '/**\n * <!-- ={usage} -->\n * First line.\n *\n * Second line.\n * <!-- {/usage} -->\n *\/',
+   * );
    * ```
    */
-  variables: CommentTemplateVariables;
+  autoindent?: boolean;
 
   /**
-   * Throw an error if a variable is not found. This can be useful for making
-   * sure out of date comments don't clutter up your markdown and Typescript
-   * files.
+   * The path of the file which provided the content. The paths of include tags
+   * are resolved relative to it, and `checkTemplate` uses it to describe the
+   * location of stale blocks in the error message.
+   */
+  path?: string;
+
+  /**
+   * Read the file referenced by an `={include:"./path#region"}` tag. The path
+   * is resolved relative to `path`, or left as written when there is no
+   * `path`.
    *
-   * @default false
+   * The tag is replaced with the trimmed content of the file, or of the
+   * `@{region}` snippet within it when a `#region` is provided. Include tags
+   * within the included content are resolved as well and an error is thrown
+   * when an include cycle is found. Without this function include tags are
+   * treated as missing variables.
    *
    * ### Examples
    *
-   * This example shows how an error is thrown if a variable is not found when
-   * the `throwIfMissingVariable` is set to `true`.
-   *
    * ```ts
-   * import { assertThrows } from 'https://deno.land/x/comment_templates@0.0.0/tests/deps.ts'
    * import {
    *   commentTemplate,
-   *   type CommentTemplateProps
    * } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   * import { assertEquals } from './tests/deps.ts';
    *
-   * const props: CommentTemplateProps = {
-   *   content: `<!-- ={nonExistent} --><!-- {/nonExistent} -->`,
-   *   variables: { name: 'Deno' },
-   *   throwIfMissingVariable: true,
+   * const files: Record<string, string> = {
+   *   '/repo/examples/basic.ts': '// @{setup}\nconst a = 1;\n// {/setup}\n',
    * };
    *
-   * assertThrows(() => commentTemplate(props)); // => true!
+   * const transformed = commentTemplate({
+   *   content: '# ={include:"./examples/basic.ts#setup"}\n# {/include}\n',
+   *   variables: {},
+   *   patterns: ['hash'],
+   *   path: '/repo/readme.md',
+   *   include: (path) => files[path] ?? '',
+   * });
+   *
+   * assertEquals(
+   *   transformed,
+   *   '# ={include:"./examples/basic.ts#setup"}\nconst a = 1;\n# {/include}\n',
+   * );
    * ```
    */
-  throwIfMissingVariable?: boolean;
+  include?: IncludeFunction;
 
   /**
-   * The comment patterns to match for the provided content. You can limit the
-   * kind of comments that this function will transform.
+   * The locale used by the `number`, `percent`, `bytes` and `date` pipes. It
+   * defaults to a fixed locale rather than the locale of the system so the
+   * output is the same on every machine.
    *
-   * - `html` will be able to transform markdown files with comments.
-   * - `slash` will be able to transform languages with `slash star` comments
-   *   like JavaScript and TypeScript.
+   * @default "en-US"
+   */
+  locale?: string;
+
+  /**
+   * The time zone used by the `date` pipe.
    *
-   * @default ['html', 'slash']
+   * @default "UTC"
+   */
+  timeZone?: string;
+
+  /**
+   * The time which `|date:"relative"` formats dates relative to. Set it to
+   * keep the output of relative dates the same between runs, e.g. in
+   * snapshots.
+   *
+   * @default the current time
+   */
+  now?: Date | number;
+}
+
+/**
+ * These are the props that are passed into the `commentTemplateAsync`
+ * function.
+ */
+export interface CommentTemplateAsyncProps
+  extends Omit<CommentTemplateProps, "variables" | "include"> {
+  /**
+   * Pass variables to the template which replace the content.
+   *
+   * These are the same as the `variables` of `commentTemplate` except that
+   * functions can return a promise. Functions are only called when their tag is
+   * present in the content.
    *
    * ### Examples
    *
    * ```ts
-   * import { type CommentTemplateProps } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   * import {
+   *   type CommentTemplateAsyncProps
+   * } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
    *
-   * const props: CommentTemplateProps = {
-   *   content: `<!-- ={nonExistent} --><!-- {/nonExistent} -->`,
-   *   variables: { name: 'Deno' },
-   *   patterns: ['xml'], // limit to markdown files
-   * };
+   * const props: CommentTemplateAsyncProps = {
+   *   content: await Deno.readTextFile(new URL('tests/fixtures/sample.md', import.meta.url)),
+   *   variables: {
+   *     exampleName: 'Comment Templates',
+   *     exampleVersion: async () => (await Deno.readTextFile('./version.txt')).trim(),
+   *   },
+   * }
    * ```
    */
-  patterns?: Pattern[];
+  variables: CommentTemplateAsyncVariables;
 
   /**
-   * Return true when you want to exclude a match from being transformed.
-   *
-   * ### Examples
+   * The maximum number of variable functions which can be pending at the same
+   * time.
    *
-   * The following example excludes a match based on the provided name.
+   * @default Infinity
+   */
+  concurrency?: number;
+
+  /**
+   * Read the file referenced by an include tag. This is the same as the
+   * `include` of `commentTemplate` except it can return a promise.
+   */
+  include?: IncludeAsyncFunction;
+}
+
+/**
+ * The result of `commentTemplateWithReport`.
+ */
+export interface CommentTemplateReport {
+  /**
+   * The transformed content.
+   */
+  content: string;
+
+  /**
+   * True when the transformed content is different from the original content.
+   */
+  changed: boolean;
+
+  /**
+   * Every block which was replaced, in the order they appear in the content.
+   * This includes blocks where the replacement is the same as the current
+   * value.
+   */
+  replacements: CommentTemplateReplacement[];
+
+  /**
+   * The blocks which have no variable, in the order they appear in the
+   * content. Excluded blocks are not included.
+   */
+  missing: CommentTemplateMissingVariable[];
+
+  /**
+   * The names of the provided variables which weren't used by any tag.
+   */
+  unused: string[];
+}
+
+/**
+ * A block which was replaced.
+ */
+export interface CommentTemplateReplacement {
+  /**
+   * The variable name used by the block.
+   */
+  name: string;
+
+  /**
+   * The starting index of the replaced content in the original content.
+   */
+  start: number;
+
+  /**
+   * The end index of the replaced content in the original content.
+   */
+  end: number;
+
+  /**
+   * The content between the tags before the replacement.
+   */
+  before: string;
+
+  /**
+   * The content between the tags after the replacement.
+   */
+  after: string;
+}
+
+/**
+ * A block which has no variable.
+ */
+export interface CommentTemplateMissingVariable {
+  /**
+   * The variable name used by the block.
+   */
+  name: string;
+
+  /**
+   * The starting index of the opening comment tag.
+   */
+  start: number;
+
+  /**
+   * The end index of the closing comment tag.
+   */
+  end: number;
+}
+
+/**
+ * These are the props that are passed into the `checkTemplate` function.
+ */
+export interface CheckTemplateProps extends CommentTemplateProps {
+  /**
+   * Throw a `StaleTemplateError` when any of the blocks are out of date.
    *
-   * ```ts
-   * import { CommentTemplateProps } from 'https://deno.land/x/comment_templates@0.0.0/mod.ts';
+   * @default false
+   */
+  throwIfStale?: boolean;
+}
+
+/**
+ * These are the props that are passed into the `checkTemplateAsync` function.
+ */
+export interface CheckTemplateAsyncProps extends CommentTemplateAsyncProps {
+  /**
+   * Throw a `StaleTemplateError` when any of the blocks are out of date.
    *
-   * const props: CommentTemplateProps = {
-   *  content: '<!-- ={excludedName} --><!-- {/excludedName} -->',
-   *  variables: {},
-   *  exclude: ({ name }) => name.startsWith('excluded')
-   * }
-   * ```
+   * @default false
    */
-  exclude?: ExcludeFunction;
+  throwIfStale?: boolean;
+}
+
+/**
+ * A block where the current content is different from the content that would
+ * be generated.
+ */
+export interface StaleBlock {
+  /**
+   * The variable name used by the block.
+   */
+  name: string;
+
+  /**
+   * The starting index of the content between the tags.
+   */
+  start: number;
+
+  /**
+   * The end index of the content between the tags.
+   */
+  end: number;
+
+  /**
+   * The 1-based line number where the content between the tags starts.
+   */
+  line: number;
+
+  /**
+   * The 1-based line number where the content between the tags ends.
+   */
+  endLine: number;
+
+  /**
+   * The current content between the tags.
+   */
+  before: string;
+
+  /**
+   * The content which would be generated.
+   */
+  after: string;
 }
 
 type ExcludeFunction = (details: ExcludeDetails) => boolean;
 
+/**
+ * Read the content of the file at the resolved path of an include tag.
+ */
+export type IncludeFunction = (path: string) => string;
+
+/**
+ * Read the content of the file at the resolved path of an include tag.
+ */
+export type IncludeAsyncFunction = (path: string) => string | Promise<string>;
+
 interface ExcludeDetails {
   /**
    * The replacement value after all transformations have been applied.
@@ -633,10 +3809,14 @@ function entries<
 }
 
 /**
- * <!-- ={modExtractTemplateValues|prefix:"\n"|indent:" * "|suffix:"\n * "} -->
+ * <!-- ={modExtractTemplateValues|autoindent} -->
  * Extract the snippets from the provided content.
  *
- * This returns each named snippet in a map.
+ * This returns each named snippet in a map. Snippets are opened with `@{name}`
+ * and their values are trimmed. Only `xml` comments are searched by default,
+ * pass `patterns` to extract snippets from other comment syntaxes like example
+ * TypeScript files. Use `extractTemplateSnippets` for the position and raw
+ * value of each snippet.
  *
  * ### Examples
  *
@@ -651,31 +3831,149 @@ function entries<
  * const variables = extractTemplateValues(content);
  * // => ReadonlyMap<string, string>
  * ```
+ *
+ * Snippets can also be extracted from TypeScript files with `slash` or `line`
+ * comments.
+ *
+ * ```ts
+ * import {
+ *   extractTemplateValues,
+ * } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const content = `// @{usage}\nconsole.log("Hello");\n// {/usage}\n`;
+ * const variables = extractTemplateValues(content, { patterns: ["line"] });
+ *
+ * assertEquals(variables.get("usage"), 'console.log("Hello");');
+ * ```
  * <!-- {/modExtractTemplateValues} -->
  */
 export function extractTemplateValues(
   content: string,
+  props: ExtractTemplateValuesProps = {},
 ): ReadonlyMap<string, string> {
+  const snippets = extractTemplateSnippets(content, props);
   const items: Array<[name: string, value: string]> = [];
-  const matches = content.matchAll(XML_COMMENT_SNIPPET);
 
-  for (const match of matches) {
-    const full = match[0];
-    const { name, value, open, close } = match.groups ?? {};
-    const start = match.index;
-    const length = full?.length;
+  for (const [name, snippet] of snippets) {
+    items.push([name, snippet.value]);
+  }
 
-    if (
-      !name || !open || !close || typeof start !== "number" || !length || !value
-    ) {
-      continue;
+  return new Map(items);
+}
+
+/**
+ * Extract the snippets from the provided content along with where each of
+ * them was found.
+ *
+ * This is the same as `extractTemplateValues` except each snippet includes its
+ * raw value and position. Snippets with no content are skipped, and when a
+ * name is used more than once the last snippet wins.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { extractTemplateSnippets } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const content = "# Title\n\n/* @{greet} *\/ hello /* {/greet} *\/";
+ * const snippet = extractTemplateSnippets(content, { patterns: ["slash"] })
+ *   .get("greet");
+ *
+ * assertEquals(snippet?.value, "hello");
+ * assertEquals(snippet?.raw, " hello ");
+ * assertEquals(snippet?.line, 3);
+ * ```
+ */
+export function extractTemplateSnippets(
+  content: string,
+  props: ExtractTemplateValuesProps = {},
+): ReadonlyMap<string, TemplateSnippet> {
+  const { patterns = ["xml"] } = props;
+  const items: Array<[name: string, snippet: TemplateSnippet]> = [];
+  const { blocks } = parseTemplate(content, { patterns });
+  const getLine = createLineCounter(content);
+
+  const visit = (nodes: readonly TemplateBlockNode[]) => {
+    for (const node of nodes) {
+      if (node.kind === "snippet" && node.value) {
+        const start = node.open.end;
+        const end = start + node.value.length;
+
+        items.push([node.name, {
+          name: node.name,
+          value: node.value.trim(),
+          raw: node.value,
+          pattern: node.pattern,
+          start,
+          end,
+          line: getLine(start),
+          endLine: getLine(end),
+        }]);
+      }
+
+      visit(node.children);
     }
+  };
 
-    items.push([name, value.trim()]);
-  }
+  visit(blocks);
 
   return new Map(items);
 }
 
-const XML_COMMENT_SNIPPET =
-  /(?<open><!--\s*@\{(?<name>[a-z_A-Z$][a-z_A-Z0-9$\.]*)\}\s*-->)(?<value>.*)(?<close><!--\s*\{\/\k<name>\}\s*-->)/gms;
+/**
+ * The props for `extractTemplateValues` and `extractTemplateSnippets`.
+ */
+export interface ExtractTemplateValuesProps {
+  /**
+   * The comment patterns to extract the snippets from.
+   *
+   * @default ['xml']
+   */
+  patterns?: CommentPattern[];
+}
+
+/**
+ * A snippet extracted by `extractTemplateSnippets`.
+ */
+export interface TemplateSnippet {
+  /**
+   * The name of the snippet.
+   */
+  name: string;
+
+  /**
+   * The trimmed content of the snippet.
+   */
+  value: string;
+
+  /**
+   * The content between the opening and closing tags as it appears.
+   */
+  raw: string;
+
+  /**
+   * The comment pattern used by the tags of the snippet.
+   */
+  pattern: CommentPattern;
+
+  /**
+   * The starting index of the content between the tags.
+   */
+  start: number;
+
+  /**
+   * The end index of the content between the tags.
+   */
+  end: number;
+
+  /**
+   * The 1-based line number where the content between the tags starts.
+   */
+  line: number;
+
+  /**
+   * The 1-based line number where the content between the tags ends.
+   */
+  endLine: number;
+}
@@ -5,7 +5,7 @@ const log = getLogger();
 const deps: string[] = [];
 const args = parse(Deno.args, { boolean: ["reload"] });
 const cwd = new URL("..", import.meta.url).pathname;
-const iterator = expandGlob("**/deps.ts", { includeDirs: false });
+const iterator = expandGlob("**/*deps.ts", { includeDirs: false });
 
 for await (const dep of iterator) {
   deps.push(dep.path);
@@ -0,0 +1,28 @@
+/**
+ * The variables for the `commentTemplates` targets in `deno.jsonc`.
+ *
+ * @script
+ */
+
+import { extractTemplateValues } from "../../mod.ts";
+import { Eta } from "../deps.ts";
+import { formatMarkdown } from "../dprint.ts";
+import { getVersion } from "../helpers.ts";
+import { generateApi } from "./generate-api.ts";
+
+export function readme(): Record<string, () => Promise<string>> {
+  // The api docs are only generated when the `apiDocs` tag is present.
+  const apiDocs = () => generateApi(new URL("../../mod.ts", import.meta.url));
+  return { apiDocs };
+}
+
+export async function mod(): Promise<Record<string, string>> {
+  const version = await getVersion();
+  const snippet = await Deno.readTextFile(
+    new URL("../../mod.d.md", import.meta.url),
+  );
+  const map = extractTemplateValues(
+    formatMarkdown(Eta.render(snippet, { version }) as string),
+  );
+  return Object.fromEntries(map);
+}
@@ -20,6 +20,11 @@ try {
       cmd: ["deno", "test", "--import-map", importMapPath, "--doc", ...[
         "mod.ts",
         "mod.d.md",
+        "cli.ts",
+        "config.ts",
+        "files.ts",
+        "watch.ts",
+        "serialize.ts",
       ]],
       cwd,
     }).status();
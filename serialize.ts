@@ -0,0 +1,49 @@
+/**
+ * The `yaml` and `toml` pipes, which are kept out of `mod.ts` so that only the
+ * code which uses them loads the YAML and TOML modules. `updateFiles` and the
+ * CLI include them by default.
+ *
+ * @module
+ */
+
+import { stringifyToml, stringifyYaml } from "./serialize_deps.ts";
+import {
+  CommentTemplateError,
+  type CommentTemplatePipes,
+  defineValuePipe,
+} from "./mod.ts";
+
+/**
+ * The pipes which convert the value of a variable to YAML or TOML.
+ *
+ * - `yaml`: `|yaml` will convert the value to YAML.
+ * - `toml`: `|toml` will convert an object to TOML.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { commentTemplate } from "https://deno.land/x/comment_templates@0.1.1/mod.ts";
+ * import { serializationPipes } from "https://deno.land/x/comment_templates@0.1.1/serialize.ts";
+ * import { assertEquals } from "./tests/deps.ts";
+ *
+ * const transformed = commentTemplate({
+ *   content: `<!-- ={pkg|toml} --><!-- {/pkg} -->`,
+ *   variables: { pkg: { name: "deno" } },
+ *   pipes: serializationPipes,
+ * });
+ *
+ * assertEquals(transformed, `<!-- ={pkg|toml} -->name = "deno"<!-- {/pkg} -->`);
+ * ```
+ */
+export const serializationPipes: CommentTemplatePipes = {
+  yaml: defineValuePipe(() => (value: unknown) => {
+    return stringifyYaml(value as Record<string, unknown>).trimEnd();
+  }),
+  toml: defineValuePipe(() => (value: unknown) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new CommentTemplateError("The pipe 'toml' expects an object");
+    }
+
+    return stringifyToml(value as Record<string, unknown>).trimEnd();
+  }),
+};
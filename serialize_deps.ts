@@ -0,0 +1,5 @@
+export {
+  parse as parseYaml,
+  stringify as stringifyYaml,
+} from "https://deno.land/std@0.145.0/encoding/yaml.ts";
+export { stringify as stringifyToml } from "https://deno.land/std@0.145.0/encoding/toml.ts";
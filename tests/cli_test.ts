@@ -0,0 +1,220 @@
+import { parseCliArgs, runCli } from "../cli.ts";
+import { path } from "../deps.ts";
+import { CommentTemplateError } from "../mod.ts";
+import { assertEquals, assertThrows, describe, it } from "./deps.ts";
+import { createMemoryFileSystem, createScratchDir } from "./helpers.ts";
+
+const cwd = new URL(".", import.meta.url).pathname;
+
+function createLogger() {
+  const output: string[] = [];
+  const log = (message: string) => output.push(message);
+
+  return { output, logger: { log, error: log } };
+}
+
+describe("parseCliArgs", () => {
+  it("should parse globs and flags", () => {
+    const options = parseCliArgs([
+      "docs/**/*.md",
+      "readme.md",
+      "--vars",
+      "vars.json",
+      "--vars",
+      "vars.yaml",
+      "--var",
+      "version=1.0.0",
+      "--var",
+      "query=a=b",
+      "--check",
+      "--dry-run",
+    ]);
+
+    assertEquals(options, {
+      globs: ["docs/**/*.md", "readme.md"],
+      vars: ["vars.json", "vars.yaml"],
+      variables: { version: "1.0.0", query: "a=b" },
+      check: true,
+      dryRun: true,
+      watch: false,
+      help: false,
+    });
+  });
+
+  it("should throw for invalid variables", () => {
+    assertThrows(
+      () => parseCliArgs(["--var", "version"]),
+      CommentTemplateError,
+    );
+    assertThrows(() => parseCliArgs(["--var", "=1.0.0"]), CommentTemplateError);
+  });
+});
+
+describe("runCli", () => {
+  it("should exit with a non-zero code when files are out of date", async () => {
+    const { output, logger } = createLogger();
+    const code = await runCli(
+      ["fixtures/*.md", "--var", "exampleName=deno", "--check"],
+      { cwd, logger },
+    );
+
+    assertEquals(code, 1);
+    assertEquals(output, [
+      "fixtures/sample.md:1 exampleName",
+      "1 templated block is out of date",
+    ]);
+  });
+
+  it("should check the files and includes of the file system", async () => {
+    const { output, logger } = createLogger();
+    const { fs, writes } = createMemoryFileSystem({
+      "/repo/vars.json": `{ "name": "deno" }`,
+      "/repo/docs/guide.md":
+        `<!-- ={name} -->deno<!-- {/name} -->\n<!-- ={include:"./usage.md"} -->old<!-- {/include} -->\n`,
+      "/repo/docs/usage.md": "Run it.",
+    });
+    const code = await runCli(["docs/*.md", "--vars", "vars.json", "--check"], {
+      cwd: "/repo",
+      logger,
+      fs,
+    });
+
+    assertEquals(code, 1);
+    assertEquals(output, [
+      "docs/guide.md:2 include",
+      "1 templated block is out of date",
+    ]);
+    assertEquals(writes, []);
+  });
+
+  it("should check `\\r\\n` files the same way they are updated", async () => {
+    const { output, logger } = createLogger();
+    const { fs } = createMemoryFileSystem({
+      "/repo/readme.md": "# Readme\r\n<!-- ={list} --><!-- {/list} -->\r\n",
+    });
+    const args = ["readme.md", "--var", "list=a\nb"];
+
+    assertEquals(await runCli(args, { cwd: "/repo", logger, fs }), 0);
+    assertEquals(
+      await runCli([...args, "--check"], { cwd: "/repo", logger, fs }),
+      0,
+    );
+    assertEquals(output, ["Updated readme.md"]);
+  });
+
+  it("should check files with the serialization pipes", async () => {
+    const { output, logger } = createLogger();
+    const { fs } = createMemoryFileSystem({
+      "/repo/vars.json": `{ "config": { "name": "deno" } }`,
+      "/repo/readme.md": "<!-- ={config|yaml} -->name: old<!-- {/config} -->",
+    });
+    const code = await runCli(["readme.md", "--vars", "vars.json", "--check"], {
+      cwd: "/repo",
+      logger,
+      fs,
+    });
+
+    assertEquals(code, 1);
+    assertEquals(output, [
+      "readme.md:1 config",
+      "1 templated block is out of date",
+    ]);
+  });
+
+  it("should exit with zero when files are up to date", async () => {
+    const { output, logger } = createLogger();
+    const code = await runCli(["fixtures/*.md", "--check"], { cwd, logger });
+
+    assertEquals(code, 0);
+    assertEquals(output, []);
+  });
+
+  it("should list the files which would change in dry run mode", async () => {
+    const { output, logger } = createLogger();
+    const code = await runCli(
+      ["fixtures/*.md", "--var", "exampleName=deno", "--dry-run"],
+      { cwd, logger },
+    );
+
+    assertEquals(code, 0);
+    assertEquals(output, ["Would update fixtures/sample.md"]);
+  });
+
+  it("should exit with a non-zero code when no files match", async () => {
+    const { output, logger } = createLogger();
+    const code = await runCli(["fixtures/*.nope"], { cwd, logger });
+
+    assertEquals(code, 1);
+    assertEquals(output, ["No files matched: fixtures/*.nope"]);
+  });
+
+  it("should not watch in check mode", async () => {
+    const { output, logger } = createLogger();
+    const code = await runCli(["fixtures/*.md", "--watch", "--check"], {
+      cwd,
+      logger,
+    });
+
+    assertEquals(code, 1);
+    assertEquals(output, [
+      "The --watch flag can't be used with --check or --dry-run",
+    ]);
+  });
+
+  it("should load the variable files when watching the config", async () => {
+    const dir = await createScratchDir();
+    const controller = new AbortController();
+    // Stop watching when nothing is logged rather than hanging.
+    const timer = setTimeout(() => controller.abort(), 5000);
+    const output: string[] = [];
+    const logger = {
+      log: (message: string) => {
+        output.push(message);
+        controller.abort();
+      },
+      error: (message: string) => {
+        output.push(message);
+        controller.abort();
+      },
+    };
+
+    try {
+      await Deno.writeTextFile(
+        path.join(dir, "deno.json"),
+        JSON.stringify({ commentTemplates: { targets: [{ files: "*.md" }] } }),
+      );
+      await Deno.writeTextFile(path.join(dir, "vars.json"), `{ "name": "a" }`);
+      await Deno.writeTextFile(
+        path.join(dir, "readme.md"),
+        "<!-- ={name} --><!-- {/name} -->",
+      );
+
+      const code = await runCli(["--watch", "--vars", "vars.json"], {
+        cwd: dir,
+        logger,
+        signal: controller.signal,
+      });
+
+      assertEquals(code, 0);
+      assertEquals(output, ["Updated readme.md"]);
+      assertEquals(
+        await Deno.readTextFile(path.join(dir, "readme.md")),
+        "<!-- ={name} -->a<!-- {/name} -->",
+      );
+    } finally {
+      clearTimeout(timer);
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+
+  it("should run the config when no globs are provided", async () => {
+    const { output, logger } = createLogger();
+    const code = await runCli(["--check"], {
+      cwd: `${cwd}fixtures/config`,
+      logger,
+    });
+
+    assertEquals(code, 1);
+    assertEquals(output, ["docs/readme.md is out of date"]);
+  });
+});
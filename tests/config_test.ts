@@ -0,0 +1,84 @@
+import { loadConfig, parseJsonc, runConfig } from "../config.ts";
+import { CommentTemplateError } from "../mod.ts";
+import { assertEquals, assertRejects, describe, it } from "./deps.ts";
+import { snapshot } from "./helpers.ts";
+
+const fixtures = new URL("fixtures/", import.meta.url).pathname;
+
+describe("parseJsonc", () => {
+  it("should ignore comments and trailing commas", () => {
+    const content = `{
+      // A line comment
+      "url": "https://deno.land", /* A block comment */
+      "text": "a,}",
+      "list": [1, 2,],
+    }`;
+
+    assertEquals(parseJsonc(content), {
+      url: "https://deno.land",
+      text: "a,}",
+      list: [1, 2],
+    });
+  });
+
+  it("should remove trailing commas followed by comments", () => {
+    const content = `[[1,\n// a\n], {"b": [2 ,] /* c */ ,},]`;
+
+    assertEquals(parseJsonc(content), [[1], { b: [2] }]);
+  });
+});
+
+describe("loadConfig", () => {
+  it("should load the config from `deno.jsonc`", async () => {
+    const config = await loadConfig(`${fixtures}config`);
+
+    assertEquals(config?.targets.length, 1);
+    assertEquals(config?.targets[0]?.files, "docs/*.md");
+  });
+
+  it("should prefer `comment_templates.config.ts`", async () => {
+    const config = await loadConfig(`${fixtures}config_module`);
+
+    assertEquals(config?.targets[0]?.files, "*.md");
+  });
+
+  it("should return `undefined` when there is no config", async () => {
+    assertEquals(await loadConfig(fixtures), undefined);
+  });
+});
+
+describe("runConfig", () => {
+  it("should load variables from each source", async (t) => {
+    const [result, ...rest] = await runConfig({
+      cwd: `${fixtures}config`,
+      dryRun: true,
+    });
+
+    assertEquals(rest, []);
+    assertEquals(result?.path, "docs/readme.md");
+    assertEquals(result?.changed, true);
+    await snapshot(t, result?.content);
+  });
+
+  it("should override the variables of every target", async () => {
+    const [result] = await runConfig({
+      cwd: `${fixtures}config_module`,
+      dryRun: true,
+      variables: { name: "override" },
+    });
+
+    assertEquals(result, {
+      path: "readme.md",
+      changed: true,
+      written: false,
+      content: "# <!-- ={name} -->override<!-- {/name} -->\n",
+    });
+  });
+
+  it("should throw when there is no config", async () => {
+    await assertRejects(
+      () => runConfig({ cwd: fixtures, dryRun: true }),
+      CommentTemplateError,
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { getPatterns, parseVariables, updateFiles } from "../files.ts";
+import { CommentTemplateError } from "../mod.ts";
+import { assertEquals, assertThrows, describe, it } from "./deps.ts";
+import { createMemoryFileSystem } from "./helpers.ts";
+
+describe("getPatterns", () => {
+  it("should pick the patterns from the file extension", () => {
+    assertEquals(getPatterns("docs/readme.md"), ["xml"]);
+    assertEquals(getPatterns(".github/workflows/ci.YML"), ["hash"]);
+    assertEquals(getPatterns("src/app.tsx"), ["jsx", "slash", "xml", "line"]);
+    assertEquals(getPatterns("license"), undefined);
+  });
+
+  it("should pick the patterns from the file name", () => {
+    assertEquals(getPatterns("docker/Dockerfile"), ["hash"]);
+    assertEquals(getPatterns("docker/app.dockerfile"), ["hash"]);
+    assertEquals(getPatterns("Makefile"), ["hash"]);
+    assertEquals(getPatterns(".gitignore"), ["hash"]);
+  });
+});
+
+describe("parseVariables", () => {
+  it("should parse json and yaml files", () => {
+    assertEquals(parseVariables(`{ "version": "1.0.0" }`, "vars.json"), {
+      version: "1.0.0",
+    });
+    assertEquals(parseVariables(`pkg:\n  name: deno\n`, "vars.yml"), {
+      pkg: { name: "deno" },
+    });
+  });
+
+  it("should throw for unsupported files", () => {
+    assertThrows(() => parseVariables("", "vars.toml"), CommentTemplateError);
+    assertThrows(() => parseVariables("[]", "vars.json"), CommentTemplateError);
+  });
+});
+
+describe("updateFiles", () => {
+  const files = {
+    "/docs/readme.md": "# <!-- ={name} -->old<!-- {/name} -->\n",
+    "/docs/guide.md": "# <!-- ={name} -->new<!-- {/name} -->\n",
+    "/src/mod.ts": "/* ={name} *//* {/name} */\n",
+  };
+
+  it("should only write the files which changed", async () => {
+    const { fs, contents, writes } = createMemoryFileSystem(files);
+    const results = await updateFiles({
+      glob: "docs/*.md",
+      files: ["src/mod.ts"],
+      variables: { name: "new" },
+      cwd: "/",
+      fs,
+    });
+
+    assertEquals(results, [
+      {
+        path: "src/mod.ts",
+        changed: true,
+        written: true,
+        content: "/* ={name} */new/* {/name} */\n",
+      },
+      {
+        path: "docs/guide.md",
+        changed: false,
+        written: false,
+        content: "# <!-- ={name} -->new<!-- {/name} -->\n",
+      },
+      {
+        path: "docs/readme.md",
+        changed: true,
+        written: true,
+        content: "# <!-- ={name} -->new<!-- {/name} -->\n",
+      },
+    ]);
+    assertEquals(writes, ["/src/mod.ts", "/docs/readme.md"]);
+    assertEquals(contents.get("/docs/readme.md"), results[2]?.content);
+  });
+
+  it("should not write files in dry run mode", async () => {
+    const { fs, contents, writes } = createMemoryFileSystem(files);
+    const results = await updateFiles({
+      glob: "**/*",
+      variables: { name: "dry" },
+      cwd: "/",
+      dryRun: true,
+      fs,
+    });
+
+    assertEquals(results.map(({ path, changed }) => ({ path, changed })), [
+      { path: "docs/guide.md", changed: true },
+      { path: "docs/readme.md", changed: true },
+      { path: "src/mod.ts", changed: true },
+    ]);
+    assertEquals(writes, []);
+    assertEquals(Object.fromEntries(contents), files);
+  });
+
+  it("should resolve include tags relative to each file", async () => {
+    const { fs, contents } = createMemoryFileSystem({
+      "/docs/guide.md":
+        `<!-- ={include:"../examples/basic.ts#setup"} --><!-- {/include} -->`,
+      "/examples/basic.ts": "// @{setup}\nconst a = 1;\n// {/setup}\n",
+    });
+
+    await updateFiles({
+      files: ["docs/guide.md"],
+      variables: {},
+      cwd: "/",
+      fs,
+    });
+
+    assertEquals(
+      contents.get("/docs/guide.md"),
+      `<!-- ={include:"../examples/basic.ts#setup"} -->const a = 1;<!-- {/include} -->`,
+    );
+  });
+
+  it("should preserve `\\r\\n` line endings", async () => {
+    const { fs, contents } = createMemoryFileSystem({
+      "/config.yml": "# ={steps}\r\nold: true\r\n# {/steps}\r\n",
+    });
+
+    await updateFiles({
+      files: ["config.yml"],
+      variables: { steps: "first: true\nsecond: true" },
+      cwd: "/",
+      fs,
+    });
+
+    assertEquals(
+      contents.get("/config.yml"),
+      "# ={steps}\r\nfirst: true\r\nsecond: true\r\n# {/steps}\r\n",
+    );
+  });
+
+  it("should provide the serialization pipes", async () => {
+    const { fs, contents } = createMemoryFileSystem({
+      "/readme.md": "<!-- ={config|yaml} --><!-- {/config} -->\n",
+    });
+
+    await updateFiles({
+      files: ["readme.md"],
+      variables: { config: { name: "deno" } },
+      cwd: "/",
+      fs,
+    });
+
+    assertEquals(
+      contents.get("/readme.md"),
+      "<!-- ={config|yaml} -->name: deno<!-- {/config} -->\n",
+    );
+  });
+});
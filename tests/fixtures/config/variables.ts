@@ -0,0 +1,5 @@
+export const version = "2.0.0";
+
+export function year(): string {
+  return "2022";
+}
@@ -0,0 +1,10 @@
+import { defineConfig } from "../../../config.ts";
+
+export default defineConfig({
+  targets: [
+    {
+      files: "*.md",
+      variables: [{ type: "values", values: { name: () => "module config" } }],
+    },
+  ],
+});
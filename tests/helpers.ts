@@ -1,3 +1,5 @@
+import { path } from "../deps.ts";
+import type { FileSystem } from "../files.ts";
 import { assertSnapshot } from "./deps.ts";
 
 export function snapshot<Content>(
@@ -21,3 +23,49 @@ export function snapshot<Content>(
 }
 
 export { it as test } from "./deps.ts";
+
+/**
+ * Create an empty directory within `tests/tmp` for a test which needs real
+ * files. The `test` task is only allowed to write to the `tests` folder so the
+ * system temp directory can't be used.
+ */
+export async function createScratchDir(): Promise<string> {
+  const dir = new URL("tmp/", import.meta.url).pathname;
+  await Deno.mkdir(dir, { recursive: true });
+
+  return Deno.makeTempDir({ dir });
+}
+
+/**
+ * A file system which keeps the files in memory and records each write.
+ */
+export function createMemoryFileSystem(files: Record<string, string>): {
+  fs: FileSystem;
+  contents: Map<string, string>;
+  writes: string[];
+} {
+  const contents = new Map(Object.entries(files));
+  const writes: string[] = [];
+
+  const fs: FileSystem = {
+    readTextFile: (file) => {
+      const content = contents.get(file);
+      return content === undefined
+        ? Promise.reject(new Deno.errors.NotFound(file))
+        : Promise.resolve(content);
+    },
+    writeTextFile: (file, content) => {
+      contents.set(file, content);
+      writes.push(file);
+      return Promise.resolve();
+    },
+    expandGlob: (glob, cwd) => {
+      const regex = path.globToRegExp(path.join(cwd, glob));
+      return Promise.resolve(
+        [...contents.keys()].filter((file) => regex.test(file)),
+      );
+    },
+  };
+
+  return { fs, contents, writes };
+}
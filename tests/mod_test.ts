@@ -1,9 +1,25 @@
 import {
+  checkTemplate,
   commentTemplate,
+  commentTemplateAsync,
+  type CommentTemplateAsyncProps,
   CommentTemplateError,
+  type CommentTemplateProps,
+  commentTemplateWithReport,
+  definePipe,
+  defineValuePipe,
+  extractTemplateSnippets,
   extractTemplateValues,
+  parseTemplate,
+  StaleTemplateError,
 } from "../mod.ts";
-import { assertEquals, assertThrows, describe, it } from "./deps.ts";
+import {
+  assertEquals,
+  assertRejects,
+  assertThrows,
+  describe,
+  it,
+} from "./deps.ts";
 import { snapshot } from "./helpers.ts";
 
 describe("commentTemplate", () => {
@@ -98,6 +114,195 @@ describe("commentTemplate", () => {
     await snapshot(t, transformed);
   });
 
+  it("should transform the same variable multiple times", async (t) => {
+    const content =
+      `<!-- ={name} -->first<!-- {/name} -->\n\nmiddle\n\n<!-- ={name|code} -->second<!-- {/name} -->`;
+    const transformed = commentTemplate({
+      content,
+      variables: { name: "replaced" },
+    });
+
+    await snapshot(t, transformed);
+  });
+
+  it("should transform nested blocks when the parent has no variable", async (t) => {
+    const content =
+      `<!-- ={outer} -->\n<!-- ={inner} --><!-- {/inner} -->\n<!-- {/outer} -->`;
+    const transformed = commentTemplate({
+      content,
+      variables: { inner: "inner value" },
+    });
+
+    await snapshot(t, transformed);
+  });
+
+  it("should support slash comments", async (t) => {
+    const content =
+      `const version = /* ={version|string:false} */"0.0.0"/* {/version} */;`;
+    const transformed = commentTemplate({
+      content,
+      variables: { version: "1.0.0" },
+    });
+
+    await snapshot(t, transformed);
+  });
+
+  describe("nested variables", () => {
+    const pkg = {
+      version: "1.0.0",
+      private: false,
+      repository: { url: "https://github.com/ifiokjr/comment_templates" },
+      keywords: ["deno", "templates"],
+      contributors: [{ name: "Ifiok" }],
+    };
+
+    it("should lookup dotted paths", async (t) => {
+      const content = [
+        "<!-- ={pkg.version} --><!-- {/pkg.version} -->",
+        "<!-- ={pkg.private} --><!-- {/pkg.private} -->",
+        "<!-- ={pkg.repository.url|code} --><!-- {/pkg.repository.url} -->",
+        "<!-- ={pkg.keywords.1} --><!-- {/pkg.keywords.1} -->",
+        "<!-- ={pkg.contributors.0.name} --><!-- {/pkg.contributors.0.name} -->",
+        "<!-- ={pkg.name} -->unchanged<!-- {/pkg.name} -->",
+        "<!-- ={flat.name} --><!-- {/flat.name} -->",
+      ].join("\n");
+      const transformed = commentTemplate({
+        content,
+        variables: { pkg, "flat.name": "flat", flat: { name: "nested" } },
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("should report the full path of a missing variable", () => {
+      const fn = () =>
+        commentTemplate({
+          content:
+            "<!-- ={pkg.repository.type} --><!-- {/pkg.repository.type} -->",
+          variables: { pkg },
+          throwIfMissingVariable: true,
+        });
+
+      assertThrows(
+        fn,
+        CommentTemplateError,
+        "Missing variable: 'pkg.repository.type'",
+      );
+    });
+
+    it("should not resolve inherited properties", () => {
+      const content = "<!-- ={pkg.constructor} -->a<!-- {/pkg.constructor} -->";
+      const transformed = commentTemplate({ content, variables: { pkg } });
+
+      assertEquals(transformed, content);
+    });
+
+    it("should throw when the variable is an object", () => {
+      const fn = () =>
+        commentTemplate({
+          content: "<!-- ={pkg.repository} --><!-- {/pkg.repository} -->",
+          variables: { pkg },
+        });
+
+      assertThrows(fn, CommentTemplateError);
+    });
+  });
+
+  describe("patterns", () => {
+    it("hash", async (t) => {
+      const content = [
+        "jobs:",
+        "  test:",
+        "    steps:",
+        '      # ={version|prefix:"      deno-version: "}',
+        "      deno-version: v1.x",
+        "      # {/version}",
+        "# ={empty}",
+        "# {/empty}",
+        "RUN echo '# ={ignored} not a tag'",
+      ].join("\n");
+      const transformed = commentTemplate({
+        content,
+        variables: { version: "v1.23.0", empty: "ARG VERSION=1.0.0" },
+        patterns: ["hash"],
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("line", async (t) => {
+      const content = [
+        "export const config = {",
+        '  // ={version|string:false|prefix:"  version: "|suffix:","}',
+        '  version: "0.0.0",',
+        "  // {/version}",
+        "};",
+        "const url = 'https://deno.land'; // ={ignored} not a tag",
+      ].join("\n");
+      const transformed = commentTemplate({
+        content,
+        variables: { version: "1.0.0" },
+        patterns: ["line"],
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("jsx", async (t) => {
+      const content =
+        `<p>{/* ={name} */}Placeholder{/* {/name} */} /* ={name} */text/* {/name} */</p>`;
+      const transformed = commentTemplate({
+        content,
+        variables: { name: "Deno" },
+        patterns: ["slash", "jsx"],
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("custom delimiters", async (t) => {
+      const content = [
+        '-- ={table|prefix:"SELECT * FROM "|suffix:";"}',
+        "SELECT * FROM old;",
+        "-- {/table}",
+        'main = putStrLn {- ={greeting|string:false} -}""{- {/greeting} -}',
+      ].join("\n");
+      const transformed = commentTemplate({
+        content,
+        variables: { table: "new", greeting: "hello" },
+        patterns: [{ open: "--" }, { open: "{-", close: "-}" }],
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("should throw for invalid custom delimiters", () => {
+      const fn = () =>
+        commentTemplate({
+          content: "",
+          variables: {},
+          patterns: [{ open: " ", close: "-->" }],
+        });
+
+      assertThrows(fn, CommentTemplateError);
+    });
+
+    it("hash with windows line endings", () => {
+      const content =
+        "# ={name}\r\nold\r\n# {/name}\r\n# ={other}\r\n# {/other}";
+      const transformed = commentTemplate({
+        content,
+        variables: { name: "new", other: "value" },
+        patterns: ["hash"],
+      });
+
+      assertEquals(
+        transformed,
+        "# ={name}\r\nnew\r\n# {/name}\r\n# ={other}\r\nvalue\r\n# {/other}",
+      );
+    });
+  });
+
   describe("pipes", () => {
     it("string:false", async (t) => {
       const content = `<!-- ={test|string:false} --><!-- {/test} -->`;
@@ -178,6 +383,1348 @@ describe("commentTemplate", () => {
 
       await snapshot(t, transformed);
     });
+
+    it("replace with multiple arguments and regex literals", () => {
+      const transform = (pipes: string, test: string) =>
+        commentTemplate({
+          content: `<!-- ={test|${pipes}} --><!-- {/test} -->`,
+          variables: { test },
+        }).replace(/^<!-- .*? -->|<!-- \{\/test\} -->$/g, "");
+
+      assertEquals(transform(`replace:",", ";"`, "a,b,c"), "a;b;c");
+      assertEquals(transform(`replace:/v(\\d+)/g,"$1"`, "v1 v2"), "1 2");
+      assertEquals(transform(`replace:/v(\\d+)/,"$1"`, "v1 v2"), "1 v2");
+    });
+  });
+
+  describe("table", () => {
+    const options = [
+      { name: "cwd", type: "string", default: "Deno.cwd()" },
+      { name: "dryRun", type: "boolean", default: false },
+      { name: "patterns", type: "CommentPattern | string", note: "a\nb" },
+    ];
+
+    it("should render the columns of every record", async (t) => {
+      const content = `<!-- ={options|table|autoindent} --><!-- {/options} -->`;
+      const transformed = commentTemplate({ content, variables: { options } });
+
+      await snapshot(t, transformed);
+    });
+
+    it("should select, label and align the columns", () => {
+      const content =
+        `<!-- ={options|table:"name,default":"Option,Default":"center,right"} --><!-- {/options} -->`;
+      const { replacements } = commentTemplateWithReport({
+        content,
+        variables: { options },
+      });
+
+      assertEquals(replacements[0]?.after.split("\n"), [
+        "|  Option  |    Default |",
+        "| :------: | ---------: |",
+        "|   cwd    | Deno.cwd() |",
+        "|  dryRun  |      false |",
+        "| patterns |            |",
+      ]);
+    });
+
+    it("should align wide characters and emoji by their display width", () => {
+      const content = `<!-- ={rows|table} --><!-- {/rows} -->`;
+      const { replacements } = commentTemplateWithReport({
+        content,
+        variables: {
+          rows: [
+            { name: "\u65e5\u672c\u8a9e", status: "\u2705" },
+            { name: "caf\u0065\u0301", status: "ok" },
+          ],
+        },
+      });
+
+      assertEquals(replacements[0]?.after.split("\n"), [
+        "| name   | status |",
+        "| ------ | ------ |",
+        "| \u65e5\u672c\u8a9e | \u2705     |",
+        "| caf\u0065\u0301   | ok     |",
+      ]);
+    });
+
+    it("should throw for values which aren't arrays of objects", () => {
+      const fn = () =>
+        commentTemplate({
+          content: `<!-- ={name|table} --><!-- {/name} -->`,
+          variables: { name: "value" },
+        });
+
+      assertThrows(
+        fn,
+        CommentTemplateError,
+        "The pipe 'table' expects an array of objects",
+      );
+    });
+
+    it("should throw for invalid alignments", () => {
+      const fn = () =>
+        commentTemplate({
+          content:
+            `<!-- ={options|table:"name":"":"middle"} --><!-- {/options} -->`,
+          variables: { options },
+        });
+
+      assertThrows(fn, CommentTemplateError, "Invalid alignment 'middle'");
+    });
+  });
+
+  describe("serialization pipes", () => {
+    const config = {
+      targets: [{ files: "readme.md", "dry-run": false, watch: [] }],
+      cwd: null,
+    };
+    const render = (pipes: string, variables: Record<string, unknown>) => {
+      const content = `<!-- ={config|${pipes}} --><!-- {/config} -->`;
+      const { replacements } = commentTemplateWithReport({
+        content,
+        variables: variables as CommentTemplateProps["variables"],
+      });
+
+      return replacements[0]?.after;
+    };
+
+    it("json", async (t) => {
+      await snapshot(t, render(`json:2|codeblock:"json"`, { config }));
+      assertEquals(render("json:0", { config: [1, "a"] }), `[1,"a"]`);
+    });
+
+    it("tsLiteral", async (t) => {
+      await snapshot(t, render("tsLiteral", { config }));
+      assertEquals(
+        render("tsLiteral:0", { config }),
+        `{ targets: [{ files: "readme.md", "dry-run": false, watch: [] }], cwd: null }`,
+      );
+    });
+
+    it("should pass values between value pipes", () => {
+      const keys = defineValuePipe(() => (value) => {
+        return Object.keys(value as Record<string, unknown>);
+      });
+      const transform = (content: string) =>
+        commentTemplate({ content, variables: { config }, pipes: { keys } });
+
+      assertEquals(
+        transform(`<!-- ={config|keys|json:0} --><!-- {/config} -->`),
+        `<!-- ={config|keys|json:0} -->["targets","cwd"]<!-- {/config} -->`,
+      );
+      assertThrows(
+        () => transform(`<!-- ={config|keys} --><!-- {/config} -->`),
+        CommentTemplateError,
+        "The variable 'config' is an object and can't be used as a value",
+      );
+    });
+
+    it("should throw when a string pipe receives an object", () => {
+      assertThrows(
+        () => render(`prefix:"a"|json`, { config }),
+        CommentTemplateError,
+        "The variable 'config' is an object and can't be used as a value",
+      );
+    });
+  });
+
+  describe("escaping pipes", () => {
+    const text = `Say "hi" & <b>bye</b>\\n\nit's [a](b) *done*`;
+    const render = (pipes: string) => {
+      const content = `<!-- ={text|${pipes}} --><!-- {/text} -->`;
+      const { replacements } = commentTemplateWithReport({
+        content,
+        variables: { text },
+      });
+
+      return replacements[0]?.after;
+    };
+
+    it("escapeHtml", () => {
+      assertEquals(
+        render("escapeHtml"),
+        "Say &quot;hi&quot; &amp; &lt;b&gt;bye&lt;/b&gt;\\n\nit&#39;s [a](b) *done*",
+      );
+    });
+
+    it("escapeMarkdown", () => {
+      assertEquals(
+        render("escapeMarkdown"),
+        `Say "hi" & \\<b\\>bye\\</b\\>\\\\n\nit's \\[a\\]\\(b\\) \\*done\\*`,
+      );
+    });
+
+    it("escapeRegex", () => {
+      const content = `// ={pattern|escapeRegex}\n// {/pattern}`;
+      const transformed = commentTemplate({
+        content,
+        variables: { pattern: "a.b*(c)" },
+        patterns: ["line"],
+      });
+
+      assertEquals(
+        transformed,
+        `// ={pattern|escapeRegex}\na\\.b\\*\\(c\\)\n// {/pattern}`,
+      );
+    });
+
+    it("jsString", () => {
+      const quoted = render("jsString");
+      const singleQuoted = render("jsString:true");
+
+      assertEquals(
+        quoted,
+        `"Say \\"hi\\" & <b>bye</b>\\\\n\\nit's [a](b) *done*"`,
+      );
+      assertEquals(
+        singleQuoted,
+        `'Say "hi" & <b>bye</b>\\\\n\\nit\\'s [a](b) *done*'`,
+      );
+      assertEquals(new Function(`return ${quoted}`)(), text);
+      assertEquals(new Function(`return ${singleQuoted}`)(), text);
+    });
+
+    it("jsonString", () => {
+      assertEquals(JSON.parse(render("jsonString") ?? ""), text);
+    });
+  });
+
+  describe("text pipes", () => {
+    const text = "one\ntwo\nthree\nfour\nfive";
+    const render = (pipes: string, value = text) => {
+      const content = `<!-- ={text|${pipes}} --><!-- {/text} -->`;
+      const { replacements } = commentTemplateWithReport({
+        content,
+        variables: { text: value },
+      });
+
+      return replacements[0]?.after;
+    };
+
+    it("lines", () => {
+      assertEquals(render(`lines:"2-3"`), "two\nthree");
+      assertEquals(render(`lines:"4-"`), "four\nfive");
+      assertEquals(render(`lines:"-2"`), "one\ntwo");
+      assertEquals(render("lines:3"), "three");
+      assertThrows(
+        () => render(`lines:"a-b"`),
+        CommentTemplateError,
+        "Invalid line range 'a-b'",
+      );
+      assertThrows(() => render(`lines:"0-2"`), CommentTemplateError);
+      assertThrows(
+        () => render(`lines:"5-2"`),
+        CommentTemplateError,
+        "Invalid line range '5-2', the first line is after the last line",
+      );
+    });
+
+    it("first and last", () => {
+      assertEquals(render("first"), "one");
+      assertEquals(render("first:2"), "one\ntwo");
+      assertEquals(render("last"), "five");
+      assertEquals(render("last:2"), "four\nfive");
+      assertEquals(render("last:0"), "");
+      assertThrows(
+        () => render("first:-1"),
+        CommentTemplateError,
+        "The pipe 'first' expects a number of lines of at least 0, received '-1'",
+      );
+      assertThrows(() => render("last:-1"), CommentTemplateError);
+    });
+
+    it("dedent", () => {
+      assertEquals(
+        render("dedent", "    if (a) {\n      b();\n\n    }"),
+        "if (a) {\n  b();\n\n}",
+      );
+    });
+
+    it("wrap", async (t) => {
+      const paragraph =
+        "Snippets injected from source files frequently need to be rewrapped to the column width of the file they are injected into.";
+
+      await snapshot(t, render("wrap:40", `${paragraph}\n\n  ${paragraph}`));
+      assertEquals(render("wrap:5", "a verylongword b"), "a\nverylongword\nb");
+    });
+
+    it("should wrap list items and line breaks on their own and keep code fences", async (t) => {
+      const markdown = [
+        "Install the package and run the command in the root of the repository.",
+        "",
+        "- The first item of the list which is long enough to wrap.",
+        "- The second item.",
+        "  1. A nested item which is also long enough to wrap.",
+        "",
+        "```ts",
+        "const value = 'a long line of code which must never be wrapped at all';",
+        "console.log(value);",
+        "```",
+        "",
+        "A line which ends with a break  ",
+        "and the line after it.",
+      ].join("\n");
+
+      await snapshot(t, render("wrap:40", markdown));
+    });
+
+    it("truncate", () => {
+      assertEquals(render("truncate:7", "Hello world"), "Hello\u2026");
+      assertEquals(render("truncate:9", "Hello world"), "Hello wo\u2026");
+      assertEquals(render(`truncate:9:"..."`, "Hello world"), "Hello...");
+      assertEquals(render("truncate:11", "Hello world"), "Hello world");
+    });
+
+    it("should shape extracted snippets", async (t) => {
+      const content = [
+        "/**",
+        ' * <!-- ={usage|lines:"3-"|dedent|wrap:40|autoindent} -->',
+        " * <!-- {/usage} -->",
+        " */",
+      ].join("\n");
+      const usage = [
+        "## Usage",
+        "",
+        "    Provide a string which contains template tags that should be",
+        "    replaced with the variables provided.",
+      ].join("\n");
+
+      await snapshot(t, commentTemplate({ content, variables: { usage } }));
+    });
+  });
+
+  describe("case pipes", () => {
+    const names = [
+      "comment_templates",
+      "commentTemplates",
+      "XMLHttpRequest",
+      "deno 2 release-notes",
+      "the fox's tale",
+      "\u00fcber stra\u00dfe",
+      "\u00c9COLE-normale",
+      "Hello, world! It's node.js",
+      "comment_templates v0.1.1",
+      "iPhone",
+    ];
+    const cases = [
+      "camelCase",
+      "pascalCase",
+      "kebabCase",
+      "snakeCase",
+      "constantCase",
+      "upper",
+      "lower",
+      "title",
+    ];
+
+    for (const pipe of cases) {
+      it(pipe, async (t) => {
+        const content = `<!-- ={name|${pipe}} --><!-- {/name} -->`;
+        const transformed = names.map((name) => {
+          const { replacements } = commentTemplateWithReport({
+            content,
+            variables: { name },
+          });
+
+          return `${name} => ${replacements[0]?.after}`;
+        });
+
+        await snapshot(t, transformed.join("\n"));
+      });
+    }
+
+    it("should format package names as constants", () => {
+      assertEquals(
+        commentTemplate({
+          content: "// ={packageName|constantCase}\n// {/packageName}",
+          variables: { packageName: "comment-templates" },
+          patterns: ["line"],
+        }),
+        "// ={packageName|constantCase}\nCOMMENT_TEMPLATES\n// {/packageName}",
+      );
+    });
+  });
+
+  describe("format pipes", () => {
+    const render = (
+      pipes: string,
+      value: CommentTemplateProps["variables"][string],
+      props: Partial<CommentTemplateProps> = {},
+    ) => {
+      const content = `<!-- ={value|${pipes}} --><!-- {/value} -->`;
+      const { replacements } = commentTemplateWithReport({
+        ...props,
+        content,
+        variables: { value },
+      });
+
+      return replacements[0]?.after;
+    };
+
+    it("number", () => {
+      assertEquals(render("number", 1234567.891), "1,234,567.891");
+      assertEquals(render("number", "1234567"), "1,234,567");
+      assertEquals(render(`number:"de-DE"`, 1234567.5), "1.234.567,5");
+      assertEquals(render("number", 1234.5, { locale: "de-DE" }), "1.234,5");
+      assertThrows(
+        () => render("number", "many"),
+        CommentTemplateError,
+        "The pipe 'number' expects a number, received 'many'",
+      );
+    });
+
+    it("percent", () => {
+      assertEquals(render("percent", 0.256), "26%");
+      assertEquals(render("percent:1", "0.256"), "25.6%");
+    });
+
+    it("bytes", () => {
+      assertEquals(render("bytes", 512), "512 B");
+      assertEquals(render("bytes", 999_999), "1 MB");
+      assertEquals(render("bytes:2", 999_994), "999.99 kB");
+      assertEquals(render("bytes", 1536), "1.5 kB");
+      assertEquals(render("bytes:2", 2_345_678), "2.35 MB");
+      assertEquals(render("bytes", 1536, { locale: "de-DE" }), "1,5 kB");
+    });
+
+    it("date", () => {
+      const date = new Date("2022-07-04T22:30:05Z");
+
+      assertEquals(render("date", date), "2022-07-04");
+      assertEquals(render("date", date.getTime()), "2022-07-04");
+      assertEquals(render("date", "2022-07-04T22:30:05Z"), "2022-07-04");
+      assertEquals(render("date", "2024"), "2024-01-01");
+      assertEquals(
+        render(`date:"EEEE, d 'of' MMMM yyyy HH:mm:ss"`, date),
+        "Monday, 4 of July 2022 22:30:05",
+      );
+      assertEquals(render(`date:"h:mm a"`, date), "10:30 PM");
+      assertEquals(render(`date:"long"`, date), "July 4, 2022");
+      assertEquals(
+        render(`date:"yyyy-MM-dd HH:mm"`, date, { timeZone: "Asia/Tokyo" }),
+        "2022-07-05 07:30",
+      );
+      assertEquals(
+        render(`date:"d. MMMM yyyy"`, date, { locale: "de-DE" }),
+        "4. Juli 2022",
+      );
+      assertThrows(
+        () => render("date", "soon"),
+        CommentTemplateError,
+        "The pipe 'date' expects a date, received 'soon'",
+      );
+    });
+
+    it("relative dates", async (t) => {
+      const now = new Date("2022-07-04T12:00:00Z");
+      const dates = [
+        "2022-07-04T11:59:30Z",
+        "2022-07-04T09:00:00Z",
+        "2022-07-05T11:59:59Z",
+        "2022-07-01T12:00:00Z",
+        "2022-06-01T12:00:00Z",
+        "2021-06-01T12:00:00Z",
+      ];
+      const transformed = dates.map((date) =>
+        `${date} => ${render(`date:"relative"`, date, { now })}`
+      );
+
+      await snapshot(t, transformed.join("\n"));
+      assertEquals(
+        render(`date:"relative"`, now.getTime() + 1000, { now }),
+        "in 1 second",
+      );
+    });
+  });
+
+  describe("closing tags in values", () => {
+    it("should throw when the value contains the closing tag of the block", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content: "<!-- ={note} --><!-- {/note} -->",
+            variables: { note: "a <!-- {/note} --> b" },
+          }),
+        CommentTemplateError,
+        "The value of 'note' can't contain the closing tag '{/note}'",
+      );
+    });
+
+    it("should throw when the value contains the closing tag of a parent block", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content:
+              "<!-- @{docs} --><!-- ={note} --><!-- {/note} --><!-- {/docs} -->",
+            variables: { note: "<!-- {/docs} -->" },
+          }),
+        CommentTemplateError,
+        "The value of 'note' can't contain the closing tag '{/docs}'",
+      );
+    });
+
+    it("should throw when the value contains an unclosed tag of the block", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content: "<!-- ={note} --><!-- {/note} -->",
+            variables: { note: "<!-- ={note} -->" },
+          }),
+        CommentTemplateError,
+        "The value of 'note' can't contain an unclosed 'note' tag",
+      );
+    });
+
+    it("should allow values which contain complete blocks", () => {
+      const content = "<!-- ={note} --><!-- {/note} -->";
+      const note = "<!-- ={note} -->a<!-- {/note} --> <!-- ={other} -->";
+
+      assertEquals(
+        commentTemplate({ content, variables: { note } }),
+        `<!-- ={note} -->${note}<!-- {/note} -->`,
+      );
+    });
+
+    it("should allow escaped closing delimiters", () => {
+      const content = "<!-- ={note|escapeHtml} --><!-- {/note} -->";
+
+      assertEquals(
+        commentTemplate({ content, variables: { note: "<!-- {/note} -->" } }),
+        "<!-- ={note|escapeHtml} -->&lt;!-- {/note} --&gt;<!-- {/note} -->",
+      );
+    });
+  });
+
+  describe("custom pipes", () => {
+    it("should merge custom pipes with the built in pipes", async (t) => {
+      const content =
+        `<!-- ={version|semverMajor:"v"|code} --><!-- {/version} --> <!-- ={version|trim|semverMajor} --><!-- {/version} -->`;
+      const semverMajor = definePipe((prefix: string = "") => (value) => {
+        return `${prefix}${value.split(".")[0]}`;
+      });
+      const transformed = commentTemplate({
+        content,
+        variables: { version: " 2.1.0 " },
+        pipes: { semverMajor },
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("should override built in pipes", () => {
+      const transformed = commentTemplate({
+        content: `<!-- ={name|code} --><!-- {/name} -->`,
+        variables: { name: "deno" },
+        pipes: { code: () => (value) => `<code>${value}</code>` },
+      });
+
+      assertEquals(
+        transformed,
+        `<!-- ={name|code} --><code>deno</code><!-- {/name} -->`,
+      );
+    });
+
+    it("should throw a `CommentTemplateError` when a custom pipe throws", () => {
+      const fn = () =>
+        commentTemplate({
+          content: `<!-- ={name|fail} --><!-- {/name} -->`,
+          variables: { name: "deno" },
+          pipes: {
+            fail: () => () => {
+              throw new Error("oops");
+            },
+          },
+        });
+
+      assertThrows(fn, CommentTemplateError, "The pipe 'fail' failed: oops");
+    });
+  });
+
+  describe("autoindent", () => {
+    it("should indent values within doc comments", async (t) => {
+      const content = [
+        "/**",
+        " * <!-- ={usage|autoindent} -->",
+        " * old",
+        " * <!-- {/usage} -->",
+        " */",
+        "/** <!-- ={usage|autoindent} --><!-- {/usage} --> */",
+      ].join("\n");
+      const transformed = commentTemplate({
+        content,
+        variables: { usage: "First line.\n\nSecond line.\n" },
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("should indent values within lists and line comments", async (t) => {
+      const content = [
+        "- item",
+        "  - <!-- ={list} --><!-- {/list} -->",
+        "",
+        "jobs:",
+        "  test:",
+        "    # ={steps}",
+        "    - run: old",
+        "    # {/steps}",
+        "",
+      ].join("\n");
+      const transformed = commentTemplate({
+        content,
+        variables: {
+          list: "- first\n- second",
+          steps: "- run: deno lint\n- run: deno test",
+        },
+        patterns: ["xml", "hash"],
+        autoindent: true,
+      });
+
+      await snapshot(t, transformed);
+    });
+
+    it("should be overridden by the tag", () => {
+      const content =
+        `  <!-- ={name|autoindent:false} --><!-- {/name} -->\n  <!-- ={name} --><!-- {/name} -->`;
+      const transformed = commentTemplate({
+        content,
+        variables: { name: "a\nb" },
+        autoindent: true,
+      });
+
+      assertEquals(
+        transformed,
+        `  <!-- ={name|autoindent:false} -->a\nb<!-- {/name} -->\n  <!-- ={name} -->\n  a\n  b\n  <!-- {/name} -->`,
+      );
+    });
+
+    it("should keep single line values inline", () => {
+      const content = ` * <!-- ={name|autoindent} --><!-- {/name} -->`;
+      const transformed = commentTemplate({
+        content,
+        variables: { name: "value" },
+      });
+
+      assertEquals(
+        transformed,
+        ` * <!-- ={name|autoindent} -->value<!-- {/name} -->`,
+      );
+    });
+
+    it("should throw for arguments which aren't booleans", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content: `<!-- ={name|autoindent:"yes"} --><!-- {/name} -->`,
+            variables: { name: "value" },
+          }),
+        CommentTemplateError,
+        "The pipe 'autoindent' expects a boolean argument",
+      );
+    });
+
+    it("should throw for custom pipes named autoindent", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content: `<!-- ={name|autoindent} --><!-- {/name} -->`,
+            variables: { name: "value" },
+            pipes: { autoindent: () => (value) => value },
+          }),
+        CommentTemplateError,
+        "The pipe name 'autoindent' is reserved",
+      );
+    });
+
+    it("should keep the `\\r\\n` line endings of the content", () => {
+      const content =
+        "- item\r\n  <!-- ={list|autoindent} --><!-- {/list} -->\r\n# ={steps|autoindent}\r\n# {/steps}\r\n";
+      const transformed = commentTemplate({
+        content,
+        variables: { list: "a\nb", steps: "- a\n- b" },
+        patterns: ["xml", "hash"],
+      });
+
+      assertEquals(
+        transformed,
+        "- item\r\n  <!-- ={list|autoindent} -->\r\n  a\r\n  b\r\n  <!-- {/list} -->\r\n# ={steps|autoindent}\r\n- a\r\n- b\r\n# {/steps}\r\n",
+      );
+    });
+  });
+
+  describe("conditions", () => {
+    const content = [
+      "<!-- ?{isBeta} -->",
+      "> Beta <!-- ={version} --><!-- {/version} -->",
+      "<!-- {/isBeta} -->",
+      "<!-- ?{!isBeta} -->Stable<!-- {/isBeta} -->",
+    ].join("\n");
+
+    it("should hide and show content", async (t) => {
+      const hidden = commentTemplate({
+        content,
+        variables: { isBeta: false, version: "1.0.0" },
+      });
+      const shown = commentTemplate({
+        content: hidden,
+        variables: { isBeta: true, version: "2.0.0" },
+      });
+
+      await snapshot(t, hidden);
+      assertEquals(
+        shown,
+        content
+          .replace("<!-- {/version} -->", "2.0.0<!-- {/version} -->")
+          .replace("Stable", "<!-- Stable -->"),
+      );
+    });
+
+    it("should treat empty strings, `0` and `false` as falsy", () => {
+      const toggle = (isBeta: string) =>
+        commentTemplate({
+          content: "<!-- ?{isBeta} -->beta<!-- {/isBeta} -->",
+          variables: { isBeta },
+        });
+
+      assertEquals(
+        ["", "0", "false", "true", "yes"].map(toggle),
+        [
+          "<!-- ?{isBeta} --><!-- beta --><!-- {/isBeta} -->",
+          "<!-- ?{isBeta} --><!-- beta --><!-- {/isBeta} -->",
+          "<!-- ?{isBeta} --><!-- beta --><!-- {/isBeta} -->",
+          "<!-- ?{isBeta} -->beta<!-- {/isBeta} -->",
+          "<!-- ?{isBeta} -->beta<!-- {/isBeta} -->",
+        ],
+      );
+    });
+
+    it("should treat empty arrays as falsy and other objects as truthy", () => {
+      const toggle = (contributors: unknown) =>
+        commentTemplate({
+          content: "<!-- ?{contributors} -->thanks<!-- {/contributors} -->",
+          variables: {
+            contributors,
+          } as CommentTemplateProps["variables"],
+        });
+
+      assertEquals(
+        [[], ["ifiokjr"], { name: "ifiokjr" }].map(toggle),
+        [
+          "<!-- ?{contributors} --><!-- thanks --><!-- {/contributors} -->",
+          "<!-- ?{contributors} -->thanks<!-- {/contributors} -->",
+          "<!-- ?{contributors} -->thanks<!-- {/contributors} -->",
+        ],
+      );
+    });
+
+    it("should comment out the lines of line comment blocks", async (t) => {
+      const yaml = [
+        "steps:",
+        "  - run: deno test",
+        "  # ?{deploy}",
+        "  - run: deno task deploy",
+        "",
+        "  - run: deno task publish",
+        "  # {/deploy}",
+        "",
+      ].join("\n");
+      const hidden = commentTemplate({
+        content: yaml,
+        variables: { deploy: "" },
+        patterns: ["hash"],
+      });
+
+      await snapshot(t, hidden);
+      assertEquals(
+        commentTemplate({
+          content: hidden,
+          variables: { deploy: "true" },
+          patterns: ["hash"],
+        }),
+        yaml,
+      );
+    });
+
+    it("should escape escaped closing delimiters", () => {
+      const content = `/* ?{debug} */a /* b *\\/ */ c/* {/debug} */`;
+      const hidden = commentTemplate({ content, variables: { debug: false } });
+
+      assertEquals(
+        hidden,
+        `/* ?{debug} *//* a /* b *\\\\/ *\\/ c *//* {/debug} */`,
+      );
+      assertEquals(
+        commentTemplate({ content: hidden, variables: { debug: true } }),
+        content,
+      );
+    });
+
+    it("should leave the content when the variable is missing", () => {
+      const report = commentTemplateWithReport({ content, variables: {} });
+
+      assertEquals(report.content, content);
+      assertEquals(report.missing.map(({ name }) => name), [
+        "isBeta",
+        "version",
+        "isBeta",
+      ]);
+    });
+
+    it("should report missing variables of shown content within the original content", () => {
+      const hidden = commentTemplate({
+        content,
+        variables: { isBeta: false, version: "1.0.0" },
+      });
+      const yaml = [
+        "# ?{deploy}",
+        "# # ={tag}",
+        "# # {/tag}",
+        "# {/deploy}",
+        "",
+      ].join("\n");
+      const locate = (props: CommentTemplateProps) =>
+        commentTemplateWithReport(props).missing.map((
+          { name, start, end },
+        ) => [name, props.content.slice(start, end)]);
+
+      assertEquals(
+        locate({ content: hidden, variables: { isBeta: true } }),
+        [["version", "<!-- ={version} --\\><!-- {/version} --\\>"]],
+      );
+      assertEquals(
+        locate({
+          content: yaml,
+          variables: { deploy: true },
+          patterns: ["hash"],
+        }),
+        [["tag", "# ={tag}\n# # {/tag}"]],
+      );
+    });
+  });
+
+  describe("repeat", () => {
+    const variables = {
+      contributors: [
+        { name: "Ada", url: "https://example.com/ada" },
+        { name: "Linus", url: "https://example.com/linus" },
+      ],
+      platforms: ["linux", "macos", "windows"],
+      packages: { list: [{ name: "core", meta: { version: 2 } }] },
+    };
+
+    it("should render the template for each item", async (t) => {
+      const content = [
+        "## Contributors",
+        "",
+        `<!-- *{contributors|template:"- [{name}]({url})"|autoindent} --><!-- {/contributors} -->`,
+      ].join("\n");
+
+      await snapshot(t, commentTemplate({ content, variables }));
+    });
+
+    it("should join the items with the separator and apply pipes", () => {
+      const content =
+        `<!-- *{platforms|separator:", "|code} --><!-- {/platforms} --> <!-- *{packages.list|template:"{name}@{meta.version}"} --><!-- {/packages.list} -->`;
+
+      assertEquals(
+        commentTemplate({ content, variables }),
+        `<!-- *{platforms|separator:", "|code} -->\`linux, macos, windows\`<!-- {/platforms} --> <!-- *{packages.list|template:"{name}@{meta.version}"} -->core@2<!-- {/packages.list} -->`,
+      );
+    });
+
+    it("should leave the block when the variable is missing", () => {
+      const content = `<!-- *{missing} -->old<!-- {/missing} -->`;
+      const report = commentTemplateWithReport({ content, variables });
+
+      assertEquals(report.content, content);
+      assertEquals(report.missing.map(({ name }) => name), ["missing"]);
+    });
+
+    it("should throw when the variable isn't an array", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content: `<!-- *{name} --><!-- {/name} -->`,
+            variables: { name: "value" },
+          }),
+        CommentTemplateError,
+        "The variable 'name' must be an array to be repeated",
+      );
+      assertThrows(
+        () =>
+          commentTemplate({
+            content:
+              `<!-- *{contributors|template:"{.}"} --><!-- {/contributors} -->`,
+            variables,
+          }),
+        CommentTemplateError,
+        "The value of '{.}' for item 0 of 'contributors' must be a string, number or boolean",
+      );
+    });
+    it("should resolve function variables", () => {
+      const content =
+        `<!-- *{platforms|separator:", "} --><!-- {/platforms} -->`;
+      const transformed = commentTemplate({
+        content,
+        variables: {
+          platforms: () => ["linux", "macos"],
+        } as unknown as CommentTemplateProps["variables"],
+      });
+
+      assertEquals(
+        transformed,
+        `<!-- *{platforms|separator:", "} -->linux, macos<!-- {/platforms} -->`,
+      );
+    });
+
+    it("should resolve promise variables with commentTemplateAsync", async () => {
+      const content =
+        `<!-- *{contributors|template:"{name}"|separator:", "} --><!-- {/contributors} -->`;
+      const transformed = await commentTemplateAsync({
+        content,
+        variables: {
+          contributors: () => Promise.resolve(variables.contributors),
+        } as unknown as CommentTemplateAsyncProps["variables"],
+      });
+
+      assertEquals(
+        transformed,
+        `<!-- *{contributors|template:"{name}"|separator:", "} -->Ada, Linus<!-- {/contributors} -->`,
+      );
+    });
+  });
+
+  describe("include", () => {
+    const files: Record<string, string> = {
+      "/repo/examples/basic.ts": [
+        "import { a } from './a.ts';",
+        "",
+        "// @{setup}",
+        "const b = a + 1;",
+        "// {/setup}",
+        "",
+      ].join("\n"),
+      "/repo/docs/intro.md":
+        `Intro\n\n<!-- ={include:"../examples/basic.ts#setup"} --><!-- {/include} -->\n`,
+      "/repo/docs/a.md": `<!-- ={include:"./b.md"} --><!-- {/include} -->`,
+      "/repo/docs/b.md": `<!-- ={include:"./a.md"} --><!-- {/include} -->`,
+    };
+    const include = (path: string) => {
+      const content = files[path];
+
+      if (content === undefined) {
+        throw new Error(`Not found: ${path}`);
+      }
+
+      return content;
+    };
+
+    it("should include a region relative to the path", () => {
+      const transformed = commentTemplate({
+        content:
+          `<!-- ={include:"./examples/basic.ts#setup"|codeblock:"ts"} --><!-- {/include} -->`,
+        variables: {},
+        path: "/repo/readme.md",
+        include,
+      });
+
+      assertEquals(
+        transformed,
+        `<!-- ={include:"./examples/basic.ts#setup"|codeblock:"ts"} -->\`\`\`ts\nconst b = a + 1;\n\`\`\`<!-- {/include} -->`,
+      );
+    });
+
+    it("should normalize absolute include paths", () => {
+      const transformed = commentTemplate({
+        content:
+          `<!-- ={include:"/repo/docs/../examples/basic.ts#setup"} --><!-- {/include} -->`,
+        variables: {},
+        path: "/repo/readme.md",
+        include,
+      });
+
+      assertEquals(
+        transformed,
+        `<!-- ={include:"/repo/docs/../examples/basic.ts#setup"} -->const b = a + 1;<!-- {/include} -->`,
+      );
+    });
+
+    it("should include whole files and resolve their include tags", () => {
+      const transformed = commentTemplate({
+        content: `<!-- ={include:"docs/intro.md"} --><!-- {/include} -->`,
+        variables: {},
+        path: "/repo/readme.md",
+        include,
+      });
+
+      assertEquals(
+        transformed,
+        `<!-- ={include:"docs/intro.md"} -->Intro\n\n<!-- ={include:"../examples/basic.ts#setup"} -->const b = a + 1;<!-- {/include} --><!-- {/include} -->`,
+      );
+    });
+
+    it("should throw when an include cycle is found", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content: `<!-- ={include:"./a.md"} --><!-- {/include} -->`,
+            variables: {},
+            path: "/repo/docs/readme.md",
+            include,
+          }),
+        CommentTemplateError,
+        "Include cycle detected: /repo/docs/a.md -> /repo/docs/b.md -> /repo/docs/a.md",
+      );
+    });
+
+    it("should throw when the region is missing", () => {
+      assertThrows(
+        () =>
+          commentTemplate({
+            content:
+              `<!-- ={include:"./examples/basic.ts#nope"} --><!-- {/include} -->`,
+            variables: {},
+            path: "/repo/readme.md",
+            include,
+          }),
+        CommentTemplateError,
+        "The region 'nope' was not found in '/repo/examples/basic.ts'",
+      );
+    });
+
+    it("should treat include tags as missing without an include function", () => {
+      const content =
+        `<!-- ={include:"./examples/basic.ts"} -->old<!-- {/include} -->`;
+      const report = commentTemplateWithReport({ content, variables: {} });
+
+      assertEquals(report.content, content);
+      assertEquals(report.missing.map(({ name }) => name), ["include"]);
+    });
+  });
+});
+
+describe("commentTemplateAsync", () => {
+  it("should resolve promise variables", async (t) => {
+    const content =
+      `<!-- ={name} --><!-- {/name} --> <!-- ={version|prefix:"v"} -->1.0.0<!-- {/version} --> <!-- ={static} --><!-- {/static} -->`;
+    const transformed = await commentTemplateAsync({
+      content,
+      variables: {
+        name: () => Promise.resolve("comment_templates"),
+        version: async (value = "") => {
+          const [major] = await Promise.resolve(value.split("."));
+          return `${major}.1.0`;
+        },
+        static: "static value",
+      },
+    });
+
+    await snapshot(t, transformed);
+  });
+
+  it("should only call functions for tags in the content", async () => {
+    const calls: string[] = [];
+    const content =
+      `<!-- ={used} --><!-- {/used} --><!-- ={used} --><!-- {/used} -->`;
+    const transformed = await commentTemplateAsync({
+      content,
+      variables: {
+        used: () => {
+          calls.push("used");
+          return Promise.resolve("value");
+        },
+        unused: () => {
+          calls.push("unused");
+          return Promise.resolve("value");
+        },
+      },
+    });
+
+    assertEquals(calls, ["used"]);
+    assertEquals(
+      transformed,
+      `<!-- ={used} -->value<!-- {/used} --><!-- ={used} -->value<!-- {/used} -->`,
+    );
+  });
+
+  it("should limit the number of pending variable functions", async () => {
+    let pending = 0;
+    let maximum = 0;
+    const delayed = (value: string) => async () => {
+      pending++;
+      maximum = Math.max(maximum, pending);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      pending--;
+      return value;
+    };
+    const content = ["a", "b", "c", "d", "e"]
+      .map((name) => `<!-- ={${name}} --><!-- {/${name}} -->`)
+      .join("\n");
+    const transformed = await commentTemplateAsync({
+      content,
+      variables: {
+        a: delayed("1"),
+        b: delayed("2"),
+        c: delayed("3"),
+        d: delayed("4"),
+        e: delayed("5"),
+      },
+      concurrency: 2,
+    });
+
+    assertEquals(maximum, 2);
+    assertEquals(
+      transformed,
+      commentTemplate({
+        content,
+        variables: { a: "1", b: "2", c: "3", d: "4", e: "5" },
+      }),
+    );
+  });
+
+  it("should resolve nested blocks when the parent is excluded", async (t) => {
+    const content =
+      `<!-- ={outer} -->\n<!-- ={inner} --><!-- {/inner} -->\n<!-- {/outer} -->`;
+    const transformed = await commentTemplateAsync({
+      content,
+      variables: {
+        outer: () => Promise.resolve("outer"),
+        inner: () => Promise.resolve("inner"),
+      },
+      exclude: ({ name }) => name === "outer",
+    });
+
+    await snapshot(t, transformed);
+  });
+
+  it("should reject when a variable is missing and `throwIfMissingVariable: true`", async () => {
+    await assertRejects(
+      () =>
+        commentTemplateAsync({
+          content: `<!-- ={missing} --><!-- {/missing} -->`,
+          variables: {},
+          throwIfMissingVariable: true,
+        }),
+      CommentTemplateError,
+    );
+  });
+  it("should resolve include tags with an async include function", async () => {
+    const files: Record<string, string> = {
+      "/repo/docs/usage.md": "Run `deno task docs`.\n",
+    };
+    const transformed = await commentTemplateAsync({
+      content:
+        `<!-- ={include:"../docs/usage.md"|prefix:"> "} --><!-- {/include} -->`,
+      variables: {},
+      path: "/repo/src/readme.md",
+      include: (path) => Promise.resolve(files[path] ?? ""),
+    });
+
+    assertEquals(
+      transformed,
+      `<!-- ={include:"../docs/usage.md"|prefix:"> "} -->> Run \`deno task docs\`.<!-- {/include} -->`,
+    );
+  });
+});
+
+describe("commentTemplateWithReport", () => {
+  it("should report replacements, missing and unused variables", async (t) => {
+    const content = [
+      "# <!-- ={name} -->old name<!-- {/name} -->",
+      '<!-- ={version|prefix:"v"} -->v1.0.0<!-- {/version} -->',
+      "<!-- ={pkg.description} --><!-- {/pkg.description} -->",
+      "<!-- ={typo} --><!-- {/typo} -->",
+    ].join("\n");
+    const report = commentTemplateWithReport({
+      content,
+      variables: {
+        name: "new name",
+        version: "1.0.0",
+        pkg: { description: "A description" },
+        unused: "not used",
+      },
+    });
+
+    await snapshot(t, report);
+  });
+
+  it("should not be changed when the replacements are the same", () => {
+    const content = "<!-- ={name} -->same<!-- {/name} -->";
+    const report = commentTemplateWithReport({
+      content,
+      variables: { name: "same" },
+    });
+
+    assertEquals(report.changed, false);
+    assertEquals(report.content, content);
+    assertEquals(report.replacements.length, 1);
+  });
+
+  it("should treat excluded variables as used", () => {
+    const report = commentTemplateWithReport({
+      content: "<!-- ={name} --><!-- {/name} -->",
+      variables: { name: "value" },
+      exclude: () => true,
+    });
+
+    assertEquals(report.unused, []);
+    assertEquals(report.replacements, []);
+  });
+});
+
+describe("checkTemplate", () => {
+  const content = [
+    "# <!-- ={name} -->comment_templates<!-- {/name} -->",
+    "",
+    "<!-- ={version|code} -->`1.0.0`<!-- {/version} -->",
+    "",
+    "# ={ci}",
+    "old",
+    "value",
+    "# {/ci}",
+  ].join("\n");
+
+  it("should return the stale blocks with line numbers", async (t) => {
+    const stale = checkTemplate({
+      content,
+      variables: { name: "comment_templates", version: "2.0.0", ci: "new" },
+      patterns: ["xml", "hash"],
+    });
+
+    await snapshot(t, stale);
+  });
+
+  it("should return nothing when the content is up to date", () => {
+    const stale = checkTemplate({
+      content,
+      variables: { name: "comment_templates", version: "1.0.0" },
+      throwIfStale: true,
+    });
+
+    assertEquals(stale, []);
+  });
+
+  it("should throw a `StaleTemplateError` when `throwIfStale: true`", () => {
+    const fn = () =>
+      checkTemplate({
+        content,
+        variables: { version: "2.0.0", ci: "new" },
+        patterns: ["xml", "hash"],
+        path: "readme.md",
+        throwIfStale: true,
+      });
+
+    assertThrows(
+      fn,
+      StaleTemplateError,
+      "2 templated blocks are out of date:\n  readme.md:3 version\n  readme.md:6 ci",
+    );
+    assertThrows(fn, CommentTemplateError);
+  });
+});
+
+describe("parseTemplate", () => {
+  it("should parse blocks with pipes", async (t) => {
+    const content =
+      `# <!-- ={name|prefix:"@"|string:true|indent:2|trim} -->value<!-- {/name} -->`;
+
+    await snapshot(t, parseTemplate(content));
+  });
+
+  it("should parse nested blocks", async (t) => {
+    const content =
+      `<!-- ={outer} -->\n<!-- @{snippet} -->\n/* ={inner} */a/* {/inner} */\n<!-- {/snippet} -->\n<!-- {/outer} -->`;
+
+    await snapshot(t, parseTemplate(content));
+  });
+
+  it("should ignore unclosed and malformed tags", () => {
+    const content =
+      `<!-- ={open} --><!-- ={bad|} --><!-- {/bad} --><!-- comment <!-- ={name} -->value<!-- {/name} -->`;
+    const { blocks } = parseTemplate(content);
+
+    assertEquals(blocks.map(({ name, value }) => [name, value]), [
+      ["name", "value"],
+    ]);
+  });
+
+  it("should parse pipe arguments", () => {
+    const content =
+      `<!-- ={name|replace:"a \\"b\\"\\n",'it\\'s \\u{1F600}':/[/\\]]+/gi|pad:-1_000.5,null, true|code:} --><!-- {/name} -->`;
+    const [block] = parseTemplate(content).blocks;
+
+    assertEquals(block?.pipes, [
+      {
+        name: "replace",
+        args: ['a "b"\n', "it's \u{1F600}", /[/\]]+/gi],
+      },
+      { name: "pad", args: [-1000.5, null, true] },
+      { name: "code", args: [] },
+    ]);
+  });
+
+  it("should allow whitespace after pipe arguments", () => {
+    const content =
+      `<!-- ={name|prefix:'a' , 'b' |suffix:"c" } --><!-- {/name} -->`;
+    const [block] = parseTemplate(content).blocks;
+
+    assertEquals(block?.pipes, [
+      { name: "prefix", args: ["a", "b"] },
+      { name: "suffix", args: ["c"] },
+    ]);
+  });
+
+  it("should throw for invalid pipe arguments with their offset", () => {
+    const errors = [
+      [`<!-- ={a|replace:"b} -->`, "Unterminated string at offset 17"],
+      [
+        `<!-- ={a|replace:/b} -->`,
+        "Unterminated regular expression at offset 17",
+      ],
+      [`<!-- ={a|replace:/(/} -->`, "Invalid regular expression"],
+      [`<!-- ={a|replace:"\\u12"} -->`, "Invalid unicode escape at offset 18"],
+      [`<!-- ={a|pad:1.2.3} -->`, "Invalid number at offset 13"],
+      [
+        `<!-- ={a|pad:b} -->`,
+        "Expected a string, number, regular expression, boolean or null at offset 13",
+      ],
+      [
+        `<!-- ={a|pad:"b"c} -->`,
+        "Expected ',', '|' or '}' after the argument at offset 16",
+      ],
+      [
+        `<!-- ={a|pad:"b" c} -->`,
+        "Expected ',', '|' or '}' after the argument at offset 17",
+      ],
+    ];
+
+    for (const [content = "", message] of errors) {
+      assertThrows(() => parseTemplate(content), CommentTemplateError, message);
+    }
+  });
+
+  it("should parse condition blocks", () => {
+    const { blocks } = parseTemplate(
+      `<!-- ?{isBeta} -->a<!-- {/isBeta} --><!-- ?{!isBeta} -->b<!-- {/isBeta} -->`,
+    );
+
+    assertEquals(
+      blocks.map((
+        { kind, name, negate, value },
+      ) => [kind, name, negate, value]),
+      [
+        ["condition", "isBeta", false, "a"],
+        ["condition", "isBeta", true, "b"],
+      ],
+    );
+  });
+
+  it("should scan large content in linear time", () => {
+    const block = "<!-- ={name|code} -->value<!-- {/name} -->\n";
+    const { blocks } = parseTemplate(block.repeat(10_000));
+
+    assertEquals(blocks.length, 10_000);
   });
 });
 
@@ -203,4 +1750,42 @@ describe("extractTemplateValues", () => {
 
     assertEquals(Object.fromEntries(extracted), expected);
   });
+
+  it("should extract snippets from the provided patterns", () => {
+    const content = [
+      `/* @{inline} */ const a = 1; /* {/inline} */`,
+      `// @{example}`,
+      `const b = 2;`,
+      `// {/example}`,
+      `<!-- @{ignored} -->markdown<!-- {/ignored} -->`,
+    ].join("\n");
+    const extracted = extractTemplateValues(content, {
+      patterns: ["slash", "line"],
+    });
+
+    assertEquals(Object.fromEntries(extracted), {
+      inline: "const a = 1;",
+      example: "const b = 2;",
+    });
+  });
+});
+
+describe("extractTemplateSnippets", () => {
+  it("should include the position and raw value", () => {
+    const content = `# Title\n\n# @{steps}\n  - run: deno test\n# {/steps}\n`;
+    const extracted = extractTemplateSnippets(content, { patterns: ["hash"] });
+
+    assertEquals(Object.fromEntries(extracted), {
+      steps: {
+        name: "steps",
+        value: "- run: deno test",
+        raw: "  - run: deno test",
+        pattern: "hash",
+        start: 20,
+        end: 38,
+        line: 4,
+        endLine: 4,
+      },
+    });
+  });
 });
@@ -0,0 +1,39 @@
+import {
+  CommentTemplateError,
+  type CommentTemplateProps,
+  commentTemplateWithReport,
+} from "../mod.ts";
+import { serializationPipes } from "../serialize.ts";
+import { assertEquals, assertThrows, describe, it } from "./deps.ts";
+
+describe("serializationPipes", () => {
+  const render = (pipes: string, config: unknown) => {
+    const content = `<!-- ={config|${pipes}} --><!-- {/config} -->`;
+    const { replacements } = commentTemplateWithReport({
+      content,
+      variables: { config } as CommentTemplateProps["variables"],
+      pipes: serializationPipes,
+    });
+
+    return replacements[0]?.after;
+  };
+
+  it("yaml", () => {
+    assertEquals(
+      render("yaml", { name: "deno", keywords: ["a", "b"] }),
+      "name: deno\nkeywords:\n  - a\n  - b",
+    );
+  });
+
+  it("toml", () => {
+    assertEquals(
+      render("toml", { name: "deno", version: "1.0.0" }),
+      `name = "deno"\nversion = "1.0.0"`,
+    );
+    assertThrows(
+      () => render("toml", []),
+      CommentTemplateError,
+      "The pipe 'toml' expects an object",
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import type { CommentTemplatesConfig, TemplateTarget } from "../config.ts";
+import { path } from "../deps.ts";
+import { getAffectedTargets, watchTemplates } from "../watch.ts";
+import { assertEquals, describe, it } from "./deps.ts";
+import { createScratchDir } from "./helpers.ts";
+
+describe("getAffectedTargets", () => {
+  const mod: TemplateTarget = {
+    files: "mod.ts",
+    variables: [{ type: "snippets", path: "mod.d.md" }],
+  };
+  const readme: TemplateTarget = {
+    files: ["readme.md", "docs/**/*.md"],
+    watch: ["mod.ts"],
+  };
+  const config: CommentTemplatesConfig = { targets: [mod, readme] };
+
+  it("should match the files of the targets", () => {
+    assertEquals(
+      getAffectedTargets(config, ["/repo/docs/api/index.md"], "/repo"),
+      [
+        readme,
+      ],
+    );
+  });
+
+  it("should match the paths of the variable sources", () => {
+    assertEquals(getAffectedTargets(config, ["/repo/mod.d.md"], "/repo"), [
+      mod,
+    ]);
+  });
+
+  it("should match the watched globs", () => {
+    assertEquals(getAffectedTargets(config, ["/repo/mod.ts"], "/repo"), [
+      mod,
+      readme,
+    ]);
+  });
+
+  it("should ignore unrelated files", () => {
+    assertEquals(
+      getAffectedTargets(config, ["/repo/license", "/other/mod.ts"], "/repo"),
+      [],
+    );
+  });
+});
+
+describe("watchTemplates", () => {
+  it("should run the targets again when their sources change", async () => {
+    const cwd = await createScratchDir();
+    const readme = path.join(cwd, "readme.md");
+    const vars = path.join(cwd, "vars.json");
+    const controller = new AbortController();
+    const runs: string[][] = [];
+
+    try {
+      await Deno.writeTextFile(readme, "<!-- ={name} --><!-- {/name} -->");
+      await Deno.writeTextFile(vars, `{ "name": "first" }`);
+
+      await watchTemplates({
+        cwd,
+        debounce: 10,
+        signal: controller.signal,
+        config: {
+          targets: [{
+            files: "readme.md",
+            variables: [{ type: "file", path: "vars.json" }],
+          }],
+        },
+        onRun: (results) => {
+          runs.push(results.map((result) => result.content));
+
+          if (runs.length === 1) {
+            Deno.writeTextFileSync(vars, `{ "name": "second" }`);
+          } else {
+            controller.abort();
+          }
+        },
+        onError: (error) => {
+          controller.abort();
+          throw error;
+        },
+      });
+
+      // The write of the first run doesn't trigger a run of its own.
+      assertEquals(runs, [
+        ["<!-- ={name} -->first<!-- {/name} -->"],
+        ["<!-- ={name} -->second<!-- {/name} -->"],
+      ]);
+      assertEquals(
+        await Deno.readTextFile(readme),
+        "<!-- ={name} -->second<!-- {/name} -->",
+      );
+    } finally {
+      await Deno.remove(cwd, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Keep the comment templates fresh while editing with `watchTemplates`.
+ *
+ * @module
+ */
+
+import {
+  type CommentTemplatesConfig,
+  CONFIG_FILE,
+  loadConfig,
+  runConfig,
+  type RunConfigProps,
+  type RunConfigResult,
+  type TemplateTarget,
+} from "./config.ts";
+import { path } from "./deps.ts";
+import { CommentTemplateError } from "./mod.ts";
+
+/**
+ * The props for `watchTemplates`.
+ */
+export interface WatchTemplatesProps
+  extends Omit<RunConfigProps, "dryRun" | "reload"> {
+  /**
+   * The number of milliseconds to wait for more changes before running the
+   * affected targets.
+   *
+   * @default 100
+   */
+  debounce?: number;
+
+  /**
+   * Stop watching when the signal is aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called with the results each time targets run, including the first run
+   * when the watcher starts. It isn't called when a change affects no targets.
+   */
+  onRun?: (results: RunConfigResult[]) => void;
+
+  /**
+   * Called when running the targets fails. The watcher keeps running.
+   *
+   * @default console.error
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Run every target and then watch the working directory, running the targets
+ * affected by each change again.
+ *
+ * A target is affected by changes to its files, the paths of its `file`,
+ * `snippets` and `module` variable sources, and the globs in its `watch` list.
+ * When a target writes to a file which affects a later target, the later
+ * target runs as well. Changes caused by these writes are ignored so the
+ * watcher doesn't trigger itself.
+ *
+ * The configuration is loaded once when the watcher starts.
+ *
+ * ### Examples
+ *
+ * ```ts
+ * import { watchTemplates } from "https://deno.land/x/comment_templates@0.1.1/watch.ts";
+ *
+ * const controller = new AbortController();
+ *
+ * await watchTemplates({
+ *   cwd: "./tests/fixtures/config_module",
+ *   config: { targets: [{ files: "*.md", watch: ["*.json"] }] },
+ *   signal: controller.signal,
+ *   onRun: (results) => {
+ *     console.log(results.filter((result) => result.written));
+ *     controller.abort();
+ *   },
+ * });
+ * ```
+ */
+export async function watchTemplates(
+  props: WatchTemplatesProps = {},
+): Promise<void> {
+  const {
+    cwd = Deno.cwd(),
+    debounce = 100,
+    signal,
+    onRun = () => {},
+    onError = console.error,
+    ...options
+  } = props;
+
+  if (signal?.aborted) {
+    return;
+  }
+
+  const config = props.config ?? await loadConfig(cwd);
+
+  if (!config) {
+    throw new CommentTemplateError(
+      `No configuration found in ${CONFIG_FILE}, deno.jsonc or deno.json`,
+    );
+  }
+
+  // The content of every file written by the watcher. Changes to these files
+  // are ignored while their content is the same.
+  const written = new Map<string, string>();
+
+  const run = async (changed?: ReadonlySet<string>) => {
+    const touched = new Set(changed);
+    const results: RunConfigResult[] = [];
+    let ran = false;
+
+    for (const target of config.targets) {
+      if (changed && !isAffected(target, touched, cwd)) {
+        continue;
+      }
+
+      ran = true;
+
+      // Targets run in order so that writes can affect the later targets.
+      // deno-lint-ignore no-await-in-loop
+      const targetResults = await runConfig({
+        ...options,
+        cwd,
+        config: { targets: [target] },
+        reload: true,
+      });
+
+      for (const result of targetResults) {
+        if (result.written) {
+          const file = path.resolve(cwd, result.path);
+          written.set(file, result.content);
+          touched.add(file);
+        }
+      }
+
+      results.push(...targetResults);
+    }
+
+    if (ran) {
+      onRun(results);
+    }
+  };
+
+  const runSafely = async (changed?: ReadonlySet<string>) => {
+    try {
+      await run(changed && await withoutOwnWrites(changed, written));
+    } catch (error) {
+      onError(error);
+    }
+  };
+
+  const watcher = Deno.watchFs(cwd, { recursive: true });
+  const close = () => watcher.close();
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = runSafely();
+
+  signal?.addEventListener("abort", close, { once: true });
+
+  try {
+    for await (const event of watcher) {
+      if (event.kind === "access") {
+        continue;
+      }
+
+      for (const file of event.paths) {
+        pending.add(file);
+      }
+
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        const changed = pending;
+        pending = new Set();
+        running = running.then(() => runSafely(changed));
+      }, debounce);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", close);
+    await running;
+  }
+}
+
+/**
+ * Get the targets which are affected by changes to the files. The files are
+ * absolute paths.
+ */
+export function getAffectedTargets(
+  config: CommentTemplatesConfig,
+  files: Iterable<string>,
+  cwd: string = Deno.cwd(),
+): TemplateTarget[] {
+  const changed = new Set(files);
+  return config.targets.filter((target) => isAffected(target, changed, cwd));
+}
+
+function isAffected(
+  target: TemplateTarget,
+  files: ReadonlySet<string>,
+  cwd: string,
+): boolean {
+  const globs = [...[target.files].flat(), ...target.watch ?? []];
+  const sources = new Set<string>();
+
+  for (const source of target.variables ?? []) {
+    if ("path" in source) {
+      sources.add(path.resolve(cwd, source.path));
+    }
+  }
+
+  const regexes = globs.map((glob) =>
+    path.globToRegExp(path.resolve(cwd, glob), { extended: true })
+  );
+
+  for (const file of files) {
+    if (sources.has(file) || regexes.some((regex) => regex.test(file))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Remove the files whose content is the same as the content the watcher last
+ * wrote to them. Files which have changed since are forgotten so the map only
+ * holds writes which can still cause an event.
+ */
+async function withoutOwnWrites(
+  files: ReadonlySet<string>,
+  written: Map<string, string>,
+): Promise<Set<string>> {
+  const checked = await Promise.all([...files].map(async (file) => {
+    const content = written.get(file);
+
+    if (content === undefined) {
+      return file;
+    }
+
+    try {
+      if (content === await Deno.readTextFile(file)) {
+        return;
+      }
+    } catch {
+      // The file was removed.
+    }
+
+    written.delete(file);
+    return file;
+  }));
+
+  return new Set(checked.filter((file): file is string => file !== undefined));
+}